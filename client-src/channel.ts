@@ -0,0 +1,63 @@
+import { sendToServer } from './socket.js';
+import { log } from './utils/log.js';
+import type { EXPECTED_ANY } from './type.js';
+
+export type CustomMessageListener = (data: EXPECTED_ANY) => void;
+
+export type CustomMessage = {
+  event: string;
+  data?: EXPECTED_ANY;
+};
+
+const listeners = new Map<string, Set<CustomMessageListener>>();
+
+/**
+ * Custom message channel between the page and the dev server,
+ * e.g. `channel.on('my-plugin:update', (data) => {})` or
+ * `channel.send('my-plugin:toggle', { enabled: true })`.
+ */
+export const channel = {
+  on(event: string, listener: CustomMessageListener): void {
+    let eventListeners = listeners.get(event);
+
+    if (!eventListeners) {
+      eventListeners = new Set();
+      listeners.set(event, eventListeners);
+    }
+
+    eventListeners.add(listener);
+  },
+  off(event: string, listener: CustomMessageListener): void {
+    const eventListeners = listeners.get(event);
+
+    if (!eventListeners) {
+      return;
+    }
+
+    eventListeners.delete(listener);
+
+    if (eventListeners.size === 0) {
+      listeners.delete(event);
+    }
+  },
+  send(event: string, data?: EXPECTED_ANY): void {
+    sendToServer('custom', { event, data } as CustomMessage);
+  },
+};
+
+// called by the client entry for every `custom` message from the server
+export function emitCustomMessage({ event, data }: CustomMessage): void {
+  const eventListeners = listeners.get(event);
+
+  if (!eventListeners) {
+    return;
+  }
+
+  for (const listener of eventListeners) {
+    try {
+      listener(data);
+    } catch (error) {
+      log.error(`Error in listener for the "${event}" message:`, error);
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { CommunicationClient } from '../type.js';
+import { log } from '../utils/log.js';
+
+// Receives messages from an event stream and sends messages with POST requests,
+// for networks where WebSocket upgrades are blocked
+export default class SseClient implements CommunicationClient {
+  private client: EventSource;
+  private url: string;
+  private id: string | undefined;
+  // keeps the messages in order
+  private sending: Promise<void> = Promise.resolve();
+
+  constructor(url: string) {
+    // the dev server passes a `ws:` or `wss:` URL
+    this.url = url.replace(/^ws(s?):/, 'http$1:');
+    this.client = new EventSource(this.url);
+  }
+
+  // the connection is ready after the server assigned its id
+  onOpen(fn: (...args: unknown[]) => void): void {
+    this.client.addEventListener('connected', (event) => {
+      this.id = (event as MessageEvent<string>).data;
+      fn();
+    });
+  }
+
+  onClose(fn: (...args: unknown[]) => void): void {
+    this.client.onerror = (error: Event) => {
+      log.error(error);
+
+      // reconnecting is handled by the socket, not by `EventSource`
+      this.client.close();
+      fn();
+    };
+  }
+
+  // call fn with the message string as the first argument
+  onMessage(fn: (...args: unknown[]) => void): void {
+    this.client.onmessage = (event: MessageEvent<string>) => {
+      fn(event.data);
+    };
+  }
+
+  send(data: string): void {
+    const url = new URL(this.url);
+
+    url.searchParams.set('id', this.id as string);
+
+    this.sending = this.sending
+      .then(() =>
+        fetch(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: data,
+        }),
+      )
+      .then(
+        () => {},
+        (error) => {
+          log.error(error);
+        },
+      );
+  }
+}
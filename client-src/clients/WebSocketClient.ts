@@ -35,4 +35,8 @@ export default class WebSocketClient implements CommunicationClient {
       fn(event.data);
     };
   }
+
+  send(data: string): void {
+    this.client.send(data);
+  }
 }
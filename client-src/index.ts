@@ -10,9 +10,19 @@
 
 import { emitter as hotEmitter } from '@rspack/core/hot/emitter.js';
 import { log as rspackHotLog } from '@rspack/core/hot/log.js';
+import { emitCustomMessage } from './channel.js';
+import type { CustomMessage } from './channel.js';
 import { createOverlay, formatProblem } from './overlay.js';
 import socket from './socket.js';
 import { defineProgressElement, isProgressSupported } from './progress.js';
+import { PROTOCOL_VERSION } from './protocol.js';
+import type {
+  ServerMessageData,
+  ServerMessageHandlers,
+  StatsProblem,
+} from './protocol.js';
+import { forwardConsole } from './utils/forwardConsole.js';
+import type { ForwardConsoleOptions } from './utils/forwardConsole.js';
 import { log, setLogLevel } from './utils/log.js';
 import sendMessage from './utils/sendMessage.js';
 import type { LogLevel } from './type.js';
@@ -27,10 +37,11 @@ type OverlayOptions = {
 type Options = {
   hot: boolean;
   liveReload: boolean;
-  progress: boolean;
+  progress: boolean | 'linear' | 'circular';
   overlay: boolean | OverlayOptions;
   logging?: LogLevel;
   reconnect?: number;
+  forwardConsole?: ForwardConsoleOptions;
 };
 
 type Status = {
@@ -187,6 +198,14 @@ if (typeof parsedResourceQuery.reconnect !== 'undefined') {
   options.reconnect = Number(parsedResourceQuery.reconnect);
 }
 
+if (parsedResourceQuery['forward-console']) {
+  try {
+    options.forwardConsole = JSON.parse(parsedResourceQuery['forward-console']);
+  } catch (e) {
+    log.error('Error parsing forward console options from resource query:', e);
+  }
+}
+
 const setAllLogLevel = (level: LogLevel): void => {
   // This is needed because the HMR logger operate separately from dev server logger
   rspackHotLog.setLogLevel(
@@ -220,6 +239,10 @@ const logEnabledFeatures = (features: { [key: string]: boolean }) => {
 
 logEnabledFeatures(enabledFeatures);
 
+if (options.forwardConsole) {
+  forwardConsole(options.forwardConsole);
+}
+
 self.addEventListener('beforeunload', () => {
   status.isUnloading = true;
 });
@@ -322,6 +345,13 @@ const stripAnsi = (string: string): string => {
 };
 
 const onSocketMessage = {
+  protocol({ version }: { version: number }) {
+    if (version !== PROTOCOL_VERSION) {
+      log.warn(
+        `The dev server uses the message protocol version ${version}, but this page runs a client using version ${PROTOCOL_VERSION}. The client script is probably cached, reload the page bypassing the cache.`,
+      );
+    }
+  },
   hot() {
     if (parsedResourceQuery.hot === 'false') {
       return;
@@ -354,12 +384,13 @@ const onSocketMessage = {
     status.currentHash = _hash;
   },
   logging: setAllLogLevel,
-  overlay(value: boolean) {
+  overlay(value: ServerMessageData<'overlay'>) {
     if (typeof document === 'undefined') {
       return;
     }
 
-    options.overlay = value;
+    // filter functions are decoded below
+    options.overlay = value as boolean | OverlayOptions;
     decodeOverlayOptions(options.overlay);
   },
   reconnect(value: number) {
@@ -369,7 +400,7 @@ const onSocketMessage = {
 
     options.reconnect = value;
   },
-  progress(value: boolean) {
+  progress(value: boolean | 'linear' | 'circular') {
     options.progress = value;
   },
   'progress-update': function progressUpdate(data: {
@@ -422,7 +453,10 @@ const onSocketMessage = {
 
     self.location.reload();
   },
-  warnings(warnings: Error[], params: { preventReloading?: boolean }) {
+  warnings(
+    warnings: StatsProblem[],
+    params: { preventReloading?: boolean } | undefined,
+  ) {
     log.warn('Warnings while compiling.');
 
     const printableWarnings = warnings.map((error) => {
@@ -463,7 +497,7 @@ const onSocketMessage = {
 
     reloadApp(options, status);
   },
-  errors(errors: Error[]): void {
+  errors(errors: StatsProblem[]): void {
     log.error('Errors while compiling. Reload prevented.');
 
     const printableErrors = errors.map((error) => {
@@ -498,9 +532,37 @@ const onSocketMessage = {
       }
     }
   },
-  error(error: Error): void {
+  error(error: string): void {
     log.error(error);
   },
+  'proxy-error': function proxyError(
+    data: ServerMessageData<'proxy-error'>,
+  ): void {
+    const message = `Failed to proxy ${data.method} ${data.path} to ${
+      data.target ?? 'the target'
+    }: ${data.message || data.code}`;
+
+    log.error(message);
+
+    const overlayErrorsSettings =
+      typeof options.overlay === 'boolean'
+        ? options.overlay
+        : options.overlay && options.overlay.errors;
+    const error = Object.assign(new Error(message), {
+      file: `${data.method} ${data.path}`,
+    });
+
+    if (
+      overlayErrorsSettings &&
+      (typeof overlayErrorsSettings !== 'function' ||
+        overlayErrorsSettings(error))
+    ) {
+      overlay.send({ type: 'PROXY_ERROR', level: 'error', messages: [error] });
+    }
+  },
+  custom(message: CustomMessage): void {
+    emitCustomMessage(message);
+  },
   close() {
     log.info('Disconnected!');
 
@@ -510,6 +572,9 @@ const onSocketMessage = {
 
     sendMessage('Close');
   },
+} satisfies ServerMessageHandlers & {
+  logging: typeof setAllLogLevel;
+  close: () => void;
 };
 
 const formatURL = (objURL: {
@@ -583,7 +648,7 @@ const formatURL = (objURL: {
 };
 
 const createSocketURL = (
-  parsedURL: URL & { fromCurrentScript?: boolean },
+  parsedURL: URL & { fromCurrentScript?: boolean; compiler?: string },
 ): string => {
   let { hostname } = parsedURL;
 
@@ -668,6 +733,10 @@ const createSocketURL = (
     hostname: socketURLHostname,
     port: socketURLPort,
     pathname: socketURLPathname,
+    // in multi-compiler setups, the server only sends the messages of this compiler
+    search: parsedURL.compiler
+      ? `compiler=${encodeURIComponent(parsedURL.compiler)}`
+      : '',
     slashes: true,
   });
 };
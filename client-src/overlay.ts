@@ -12,6 +12,7 @@
 // They, in turn, got inspired by webpack-hot-middleware (https://github.com/glenjamin/webpack-hot-middleware).
 
 import ansiHTML from './utils/ansiHTML.js';
+import { resolveStack } from './utils/resolveStack.js';
 
 const hasCodePointAt = typeof String.prototype.codePointAt === 'function';
 const getCodePoint = hasCodePointAt
@@ -76,10 +77,12 @@ function encode(text: string): string {
   });
 }
 
+type MessageSource = 'build' | 'runtime' | 'proxy';
+
 type Context = {
   level: 'warning' | 'error';
   messages: (string | Message)[];
-  messageSource: 'build' | 'runtime';
+  messageSource: MessageSource;
 };
 
 type Message = Error & {
@@ -89,6 +92,8 @@ type Message = Error & {
   loc?: string;
   message?: string;
   stack?: string | string[];
+  /** code frame of the original source, with ANSI colors */
+  codeFrame?: string;
 };
 
 type Event = { type: string } & Record<string, any>;
@@ -161,9 +166,16 @@ function createMachine(
 type ShowOverlayData = {
   level: 'warning' | 'error';
   messages: (string | Message)[];
-  messageSource: 'build' | 'runtime';
+  messageSource: MessageSource;
 };
 
+const getMessageSource = (event: Event): MessageSource =>
+  event.type === 'RUNTIME_ERROR'
+    ? 'runtime'
+    : event.type === 'PROXY_ERROR'
+      ? 'proxy'
+      : 'build';
+
 type CreateOverlayMachineOptions = {
   showOverlay: (data: ShowOverlayData) => void;
   hideOverlay: () => void;
@@ -193,6 +205,10 @@ const createOverlayMachine = (
               target: 'displayRuntimeError',
               actions: ['setMessages', 'showOverlay'],
             },
+            PROXY_ERROR: {
+              target: 'displayProxyError',
+              actions: ['setMessages', 'showOverlay'],
+            },
           },
         },
         displayBuildError: {
@@ -223,6 +239,27 @@ const createOverlayMachine = (
             },
           },
         },
+        // build and runtime errors take precedence over failed proxy requests
+        displayProxyError: {
+          on: {
+            DISMISS: {
+              target: 'hidden',
+              actions: ['dismissMessages', 'hideOverlay'],
+            },
+            PROXY_ERROR: {
+              target: 'displayProxyError',
+              actions: ['appendMessages', 'showOverlay'],
+            },
+            RUNTIME_ERROR: {
+              target: 'displayRuntimeError',
+              actions: ['setMessages', 'showOverlay'],
+            },
+            BUILD_ERROR: {
+              target: 'displayBuildError',
+              actions: ['setMessages', 'showOverlay'],
+            },
+          },
+        },
       },
     },
     {
@@ -238,14 +275,14 @@ const createOverlayMachine = (
           return {
             messages: context.messages.concat(event.messages),
             level: event.level || context.level,
-            messageSource: event.type === 'RUNTIME_ERROR' ? 'runtime' : 'build',
+            messageSource: getMessageSource(event),
           };
         },
         setMessages: (context, event) => {
           return {
             messages: event.messages,
             level: event.level || context.level,
-            messageSource: event.type === 'RUNTIME_ERROR' ? 'runtime' : 'build',
+            messageSource: getMessageSource(event),
           };
         },
         hideOverlay,
@@ -403,6 +440,10 @@ const formatProblem = (
         : ''
     }`;
     body += item.message || '';
+
+    if (item.codeFrame) {
+      body += `\r\n\r\n${item.codeFrame}\r\n`;
+    }
   }
 
   if (typeof item !== 'string' && Array.isArray(item.stack)) {
@@ -564,13 +605,15 @@ const createOverlay = (options: CreateOverlayOptions): StateMachine => {
     type: 'warning' | 'error',
     messages: (string | Message)[],
     trustedTypesPolicyName: false | string | undefined,
-    messageSource: 'build' | 'runtime',
+    messageSource: MessageSource,
   ): void {
     ensureOverlayExists(() => {
       (headerElement as HTMLDivElement).innerText =
         messageSource === 'runtime'
           ? 'Uncaught runtime errors:'
-          : 'Compiled with problems:';
+          : messageSource === 'proxy'
+            ? 'Failed proxy requests:'
+            : 'Compiled with problems:';
 
       messages.forEach((message) => {
         const entryElement = document.createElement('div');
@@ -592,9 +635,18 @@ const createOverlay = (options: CreateOverlayOptions): StateMachine => {
           // element.dataset not supported in IE
           typeElement.setAttribute('data-can-open', 'true');
           typeElement.addEventListener('click', () => {
-            fetch(
-              `/rspack-dev-server/open-editor?fileName=${message.moduleIdentifier}`,
-            );
+            const params = new URLSearchParams({
+              fileName: message.moduleIdentifier as string,
+            });
+            // `loc` is `line:column`, `line:column-column` or `line:column-line:column`
+            const position = message.loc && /^(\d+):(\d+)/.exec(message.loc);
+
+            if (position) {
+              params.set('line', position[1]);
+              params.set('column', position[2]);
+            }
+
+            fetch(`/rspack-dev-server/open-editor?${params}`);
           });
         }
 
@@ -653,17 +705,30 @@ const createOverlay = (options: CreateOverlayOptions): StateMachine => {
           ? options.catchRuntimeError(errorObject)
           : true;
 
-      if (shouldDisplay) {
+      if (!shouldDisplay) {
+        return;
+      }
+
+      const stack = parseErrorToStacks(errorObject);
+      const showRuntimeError = (details: {
+        stack?: string[];
+        codeFrame?: string;
+      }) => {
         overlayService.send({
           type: 'RUNTIME_ERROR',
-          messages: [
-            {
-              message: errorObject.message,
-              stack: parseErrorToStacks(errorObject),
-            },
-          ],
+          messages: [{ message: errorObject.message, ...details }],
         });
+      };
+
+      if (!stack) {
+        showRuntimeError({ stack });
+        return;
       }
+
+      // show the original source positions when they can be resolved
+      resolveStack(stack).then(showRuntimeError, () => {
+        showRuntimeError({ stack });
+      });
     };
 
     listenToRuntimeError((errorEvent) => {
@@ -696,4 +761,9 @@ const createOverlay = (options: CreateOverlayOptions): StateMachine => {
   return overlayService;
 };
 
-export { createOverlay, formatProblem };
+export {
+  createOverlay,
+  formatProblem,
+  listenToRuntimeError,
+  listenToUnhandledRejection,
+};
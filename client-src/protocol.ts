@@ -0,0 +1,90 @@
+// Mirrors `src/protocol.ts`, the client is compiled separately from the server.
+// `tests/type-tests` checks that both copies of the messages are the same.
+export const PROTOCOL_VERSION = 1;
+
+// plain objects, typed like `Error` as they are passed to the overlay filters
+export type StatsProblem = Error & {
+  moduleIdentifier?: string;
+  moduleName?: string;
+  loc?: string;
+  file?: string;
+  codeFrame?: string;
+};
+
+export type ServerMessage =
+  | { type: 'protocol'; data: { version: number } }
+  | { type: 'hot' }
+  | { type: 'liveReload' }
+  | { type: 'invalid' }
+  | { type: 'hash'; data: string | undefined }
+  | { type: 'still-ok' }
+  | { type: 'ok' }
+  | {
+      type: 'warnings';
+      data: StatsProblem[];
+      params?: { preventReloading?: boolean };
+    }
+  | { type: 'errors'; data: StatsProblem[] }
+  | { type: 'error'; data: string }
+  | { type: 'static-changed'; data: string }
+  | { type: 'progress'; data: boolean | 'linear' | 'circular' }
+  | { type: 'progress-update'; data: { percent: number; msg: string } }
+  | { type: 'reconnect'; data: number }
+  | {
+      type: 'proxy-error';
+      data: {
+        method: string;
+        path: string;
+        target: string | undefined;
+        code: string | undefined;
+        message: string;
+      };
+    }
+  | {
+      type: 'overlay';
+      data:
+        | boolean
+        | {
+            errors?: boolean | string;
+            warnings?: boolean | string;
+            runtimeErrors?: boolean | string;
+            trustedTypesPolicyName?: string;
+          };
+    }
+  | { type: 'custom'; data: { event: string; data?: unknown } };
+
+export type ClientMessage =
+  | { type: 'protocol'; data: { version: number } }
+  | { type: 'custom'; data: { event: string; data?: unknown } }
+  | {
+      type: 'console';
+      data: {
+        level: 'error' | 'warn' | 'info' | 'log' | 'debug';
+        args: string[];
+        url?: string;
+      };
+    };
+
+export type ClientMessageData<T extends ClientMessage['type']> = Extract<
+  ClientMessage,
+  { type: T }
+>['data'];
+
+export type ServerMessageData<T extends ServerMessage['type']> =
+  Extract<ServerMessage, { type: T }> extends { data: infer Data }
+    ? Data
+    : undefined;
+
+/**
+ * Handlers of the server messages
+ */
+export type ServerMessageHandlers = {
+  [T in ServerMessage['type']]?: (
+    data: ServerMessageData<T>,
+    params: Extract<ServerMessage, { type: T }> extends {
+      params?: infer Params;
+    }
+      ? Params | undefined
+      : undefined,
+  ) => void;
+};
@@ -9,6 +9,8 @@
  */
 
 import WebSocketClient from './clients/WebSocketClient.js';
+import { PROTOCOL_VERSION } from './protocol.js';
+import type { ClientMessage, ClientMessageData } from './protocol.js';
 import { log } from './utils/log.js';
 
 import type {
@@ -47,6 +49,41 @@ export let client: CommunicationClient | null = null;
 
 let timeout: ReturnType<typeof setTimeout> | undefined;
 
+let isOpen = false;
+
+// Messages sent before the connection is open are flushed once it opens
+const pendingMessages: string[] = [];
+
+function flushPendingMessages() {
+  if (!client || !isOpen) {
+    return;
+  }
+
+  if (typeof client.send !== 'function') {
+    if (pendingMessages.length > 0) {
+      log.warn(
+        'The current client transport does not support sending messages to the server.',
+      );
+    }
+
+    pendingMessages.length = 0;
+
+    return;
+  }
+
+  while (pendingMessages.length > 0) {
+    client.send(pendingMessages.shift() as string);
+  }
+}
+
+export function sendToServer<T extends ClientMessage['type']>(
+  type: T,
+  data: ClientMessageData<T>,
+): void {
+  pendingMessages.push(JSON.stringify({ type, data }));
+  flushPendingMessages();
+}
+
 function socket(
   url: string,
   handlers: {
@@ -61,6 +98,7 @@ function socket(
 
   client.onOpen(() => {
     retries = 0;
+    isOpen = true;
 
     if (timeout) {
       clearTimeout(timeout);
@@ -69,9 +107,23 @@ function socket(
     if (typeof reconnect !== 'undefined') {
       maxRetries = reconnect;
     }
+
+    // the handshake, the server warns when the versions differ
+    if (typeof client?.send === 'function') {
+      client.send(
+        JSON.stringify({
+          type: 'protocol',
+          data: { version: PROTOCOL_VERSION },
+        }),
+      );
+    }
+
+    flushPendingMessages();
   });
 
   client.onClose(() => {
+    isOpen = false;
+
     if (retries === 0) {
       handlers.close();
     }
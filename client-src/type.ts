@@ -12,6 +12,8 @@ export interface CommunicationClient {
   onOpen(fn: (...args: unknown[]) => void): void;
   onClose(fn: (...args: unknown[]) => void): void;
   onMessage(fn: (...args: unknown[]) => void): void;
+  // optional, transports without it can only receive messages
+  send?(data: string): void;
 }
 
 export interface CommunicationClientConstructor {
@@ -0,0 +1,80 @@
+import {
+  listenToRuntimeError,
+  listenToUnhandledRejection,
+} from '../overlay.js';
+import { sendToServer } from '../socket.js';
+import type { EXPECTED_ANY } from '../type.js';
+
+export type ForwardConsoleLevel = 'error' | 'warn' | 'info' | 'log' | 'debug';
+
+export type ForwardConsoleOptions = {
+  levels?: ForwardConsoleLevel[];
+  unhandledErrors?: boolean;
+};
+
+const serialize = (value: unknown): string => {
+  if (value instanceof Error) {
+    return value.stack || `${value.name}: ${value.message}`;
+  }
+
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+// guards against forwarding the messages logged while sending a message
+let isForwarding = false;
+
+const forward = (level: ForwardConsoleLevel, args: unknown[]): void => {
+  if (isForwarding) {
+    return;
+  }
+
+  isForwarding = true;
+
+  try {
+    sendToServer('console', {
+      level,
+      args: args.map(serialize),
+      url: self.location.href,
+    });
+  } finally {
+    isForwarding = false;
+  }
+};
+
+function forwardConsole({
+  levels = [],
+  unhandledErrors,
+}: ForwardConsoleOptions): void {
+  for (const level of levels) {
+    const original = console[level] as (...args: EXPECTED_ANY[]) => void;
+
+    if (typeof original !== 'function') {
+      continue;
+    }
+
+    console[level] = (...args: EXPECTED_ANY[]) => {
+      original.apply(console, args);
+      forward(level, args);
+    };
+  }
+
+  if (unhandledErrors && typeof window !== 'undefined') {
+    listenToRuntimeError(({ error, message }) => {
+      forward('error', [`Uncaught ${serialize(error || message)}`]);
+    });
+
+    listenToUnhandledRejection(({ reason }) => {
+      forward('error', [`Uncaught (in promise) ${serialize(reason)}`]);
+    });
+  }
+}
+
+export { forwardConsole };
@@ -0,0 +1,77 @@
+type StackFrame = {
+  file: string;
+  line: number;
+  column: number;
+  name?: string;
+};
+
+type ResolvedStackFrame = {
+  file?: string;
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+};
+
+// Chrome: `    at fn (http://localhost:8080/main.js:10:5)` or `    at http://localhost:8080/main.js:10:5`
+const CHROME_FRAME_REGEXP = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+// Firefox and Safari: `fn@http://localhost:8080/main.js:10:5`
+const FIREFOX_FRAME_REGEXP = /^\s*(.*?)@(.+?):(\d+):(\d+)$/;
+
+const parseStackFrame = (line: string): StackFrame | null => {
+  const match =
+    CHROME_FRAME_REGEXP.exec(line) || FIREFOX_FRAME_REGEXP.exec(line);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    file: match[2],
+    line: Number(match[3]),
+    column: Number(match[4]),
+    name: match[1] || undefined,
+  };
+};
+
+/**
+ * Resolve the stack lines of a runtime error against the source maps
+ * on the dev server, and get a code frame of the original source.
+ * Unresolved lines are kept as they are.
+ */
+export const resolveStack = async (
+  stack: string[],
+): Promise<{ stack: string[]; codeFrame?: string }> => {
+  const frames = stack.map(parseStackFrame);
+  const response = await fetch('/rspack-dev-server/resolve-stack', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ frames }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to resolve the stack: ${response.status}`);
+  }
+
+  const result: {
+    frames: (ResolvedStackFrame | null)[];
+    codeFrame?: string;
+  } = await response.json();
+
+  return {
+    stack: stack.map((line, index) => {
+      const frame = result.frames[index];
+
+      if (!frame) {
+        return line;
+      }
+
+      const location = `${frame.source}:${frame.line}:${frame.column}`;
+
+      return frame.name
+        ? `    at ${frame.name} (${location})`
+        : `    at ${location}`;
+    }),
+    codeFrame: result.codeFrame,
+  };
+};
@@ -16,6 +16,8 @@ export default defineConfig({
   },
   env: {
     FORCE_COLOR: 'true',
+    // the local CA of the tests is not shared with the dev servers of the user
+    RSPACK_DEV_SERVER_CAROOT: 'node_modules/.cache/rspack-dev-server-test-ca',
   },
   testTimeout: process.env.CI ? 120000 : 60000,
   hookTimeout: 60000,
@@ -0,0 +1,176 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { NextFunction } from 'connect-next';
+import type {
+  AccessLogEntry,
+  EXPECTED_ANY,
+  NormalizedAccessLog,
+  Request,
+  Response,
+} from './types.js';
+
+type Logger = Pick<Console, 'info' | 'error'>;
+type Handler = (...args: EXPECTED_ANY[]) => unknown;
+
+const formatBytes = (bytes: number): string =>
+  bytes < 1024 ? `${bytes}B` : `${(bytes / 1024).toFixed(1)}kB`;
+
+/**
+ * Formats an entry as a single line, e.g. `GET /main.js 200 12ms 1.2kB @rspack/dev-middleware`
+ */
+export function formatAccessLogEntry({
+  method,
+  url,
+  status,
+  duration,
+  bytes,
+  middleware,
+  aborted,
+}: AccessLogEntry): string {
+  return [
+    method,
+    url,
+    aborted ? 'aborted' : status,
+    `${duration}ms`,
+    formatBytes(bytes),
+    middleware ?? '-',
+  ].join(' ');
+}
+
+const getLength = (chunk: unknown, encoding: unknown): number => {
+  if (typeof chunk === 'string') {
+    return Buffer.byteLength(
+      chunk,
+      typeof encoding === 'string' ? (encoding as BufferEncoding) : undefined,
+    );
+  }
+
+  return chunk instanceof Uint8Array ? chunk.byteLength : 0;
+};
+
+/**
+ * Logs the requests with the middleware which handled them, in the logger or as NDJSON in a file
+ */
+export class AccessLog {
+  #options: NormalizedAccessLog;
+  #logger: Logger;
+  #stream: fs.WriteStream | undefined;
+  // the last middleware entered by the requests
+  #handlers = new WeakMap<Request, string>();
+
+  constructor(options: NormalizedAccessLog, logger: Logger) {
+    this.#options = options;
+    this.#logger = logger;
+
+    if (options.file) {
+      fs.mkdirSync(path.dirname(options.file), { recursive: true });
+
+      this.#stream = fs.createWriteStream(options.file, { flags: 'a' });
+      this.#stream.on('error', (error) => {
+        this.#logger.error(
+          `Failed to write the access log "${options.file}": ${error.message}`,
+        );
+      });
+    }
+  }
+
+  /**
+   * Records a middleware as the handler of the requests it is called for until it calls `next`,
+   * the arity is kept for connect to tell the error handlers apart
+   */
+  track<T extends Handler>(name: string, handler: T): T {
+    const handlers = this.#handlers;
+    const enter = (req: Request, next: NextFunction): NextFunction => {
+      handlers.set(req, name);
+
+      return (error?: unknown) => {
+        if (handlers.get(req) === name) {
+          handlers.delete(req);
+        }
+
+        next(error);
+      };
+    };
+
+    if (handler.length === 4) {
+      return function (
+        this: unknown,
+        error: unknown,
+        req: Request,
+        res: Response,
+        next: NextFunction,
+      ) {
+        return handler.call(this, error, req, res, enter(req, next));
+      } as T;
+    }
+
+    return function (
+      this: unknown,
+      req: Request,
+      res: Response,
+      next: NextFunction,
+    ) {
+      return handler.call(this, req, res, enter(req, next));
+    } as T;
+  }
+
+  middleware = (req: Request, res: Response, next: NextFunction): void => {
+    const start = process.hrtime.bigint();
+    const url = req.url || '/';
+    const write = res.write;
+    const end = res.end;
+    let bytes = 0;
+
+    res.write = function (this: Response, chunk: unknown, ...args: unknown[]) {
+      bytes += getLength(chunk, args[0]);
+
+      return (write as Handler).call(this, chunk, ...args);
+    } as Response['write'];
+    res.end = function (this: Response, chunk?: unknown, ...args: unknown[]) {
+      if (typeof chunk !== 'function') {
+        bytes += getLength(chunk, args[0]);
+      }
+
+      return (end as Handler).call(this, chunk, ...args);
+    } as Response['end'];
+
+    res.once('close', () => {
+      this.#log({
+        time: new Date().toISOString(),
+        method: req.method ?? 'GET',
+        url,
+        status: res.statusCode,
+        duration: Math.round(Number(process.hrtime.bigint() - start) / 1e6),
+        bytes,
+        middleware: this.#handlers.get(req),
+        aborted: !res.writableFinished,
+      });
+    });
+
+    next();
+  };
+
+  #log(entry: AccessLogEntry): void {
+    // the stream is closed once the dev server stops
+    if (this.#options.file) {
+      this.#stream?.write(`${JSON.stringify(entry)}\n`);
+      return;
+    }
+
+    this.#logger.info(formatAccessLogEntry(entry));
+  }
+
+  async close(): Promise<void> {
+    const stream = this.#stream;
+
+    if (!stream) {
+      return;
+    }
+
+    this.#stream = undefined;
+
+    await new Promise<void>((resolve) => {
+      stream.end(resolve);
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import type { NextFunction } from 'connect-next';
+import type {
+  CompilerAssets,
+  CompilerStatus,
+  Request,
+  Response,
+} from './types.js';
+
+export interface ApiSource {
+  getStatuses(): CompilerStatus[];
+  getAssets(): CompilerAssets[];
+  /** calls the listener once the next compilation is done, returns a function removing it */
+  onceDone(listener: () => void): () => void;
+}
+
+/**
+ * Serves the state of the compilers as JSON, on `/status` and `/assets` of the path it is mounted on,
+ * with `?wait` the response is sent after the next compilation is done
+ */
+export function getApiMiddleware(
+  source: ApiSource,
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  return async (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      next();
+      return;
+    }
+
+    if (!req.url) {
+      next();
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(
+      req.url,
+      `http://${req.headers.host}`,
+    );
+    let getData: () => CompilerStatus[] | CompilerAssets[];
+
+    if (pathname === '/status') {
+      getData = () => source.getStatuses();
+    } else if (pathname === '/assets') {
+      getData = () => source.getAssets();
+    } else {
+      next();
+      return;
+    }
+
+    // long polling, respond after the next compilation is done
+    if (searchParams.has('wait')) {
+      await new Promise<void>((resolve) => {
+        const remove = source.onceDone(resolve);
+
+        res.on('close', () => {
+          remove();
+          resolve();
+        });
+      });
+
+      if (res.writableEnded || res.destroyed) {
+        return;
+      }
+    }
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+
+    // HEAD requests should not return body content
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    res.end(JSON.stringify({ compilers: getData() }));
+  };
+}
@@ -0,0 +1,527 @@
+import {
+  KeyObject,
+  X509Certificate,
+  createPrivateKey,
+  randomBytes,
+} from 'node:crypto';
+import * as fs from 'node:fs';
+import { createRequire } from 'node:module';
+import * as path from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import type { NextFunction } from 'connect-next';
+import ipaddr from 'ipaddr.js';
+import type { Request, Response } from './types.js';
+
+const require = createRequire(import.meta.url);
+
+type Logger = Pick<Console, 'info' | 'warn'>;
+
+const DAY = 1000 * 60 * 60 * 24;
+const CA_COMMON_NAME = 'Rspack Dev Server Local CA';
+const CA_VALIDITY_DAYS = 3650;
+const CERTIFICATE_VALIDITY_DAYS = 7;
+// certificates are issued again once they expire in less than a day
+const RENEWAL_DAYS = 1;
+const NAME_CONSTRAINTS_OID = '2.5.29.30';
+
+export interface CertificateAuthority {
+  /** the CA certificate in PEM format */
+  cert: string;
+  /** path of the CA certificate, to trust it in the system or the browsers */
+  certPath: string;
+}
+
+// the CA only signs certificates for local names and private addresses, so a leaked key
+// can't be used against other sites, the names include their subdomains
+const PERMITTED_NAMES = [
+  'localhost',
+  'localhost.localdomain',
+  // resolves to 127.0.0.1
+  'lvh.me',
+  'test',
+  'local',
+  'internal',
+  'home.arpa',
+];
+const PERMITTED_RANGES = [
+  '127.0.0.0/8',
+  '10.0.0.0/8',
+  '172.16.0.0/12',
+  '192.168.0.0/16',
+  '169.254.0.0/16',
+  // shared address space, e.g. of Tailscale
+  '100.64.0.0/10',
+  '::1/128',
+  'fc00::/7',
+  'fe80::/10',
+].map((range) => ipaddr.parseCIDR(range));
+
+const loadSelfsigned = (): typeof import('selfsigned') => {
+  try {
+    return require('selfsigned');
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      (error as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND'
+    ) {
+      throw new Error(
+        'Cannot generate a self-signed certificate because optional peer dependency `selfsigned@^5.0.0` is not installed. Please install it and try again.',
+        { cause: error },
+      );
+    }
+
+    throw error;
+  }
+};
+
+// DER encoding of a value with a length below 64 KiB
+const der = (tag: number, ...contents: Uint8Array[]): Buffer => {
+  const body = Buffer.concat(contents);
+  const length =
+    body.length < 0x80
+      ? [body.length]
+      : body.length < 0x100
+        ? [0x81, body.length]
+        : [0x82, body.length >> 8, body.length & 0xff];
+
+  return Buffer.concat([Buffer.from([tag, ...length]), body]);
+};
+
+// NameConstraints ::= SEQUENCE { permittedSubtrees [0] GeneralSubtrees }, RFC 5280 4.2.1.10
+const getNameConstraints = (): Buffer =>
+  der(
+    0x30,
+    der(
+      0xa0,
+      ...PERMITTED_NAMES.map((name) =>
+        // GeneralSubtree with a dNSName [2]
+        der(0x30, der(0x82, Buffer.from(name, 'ascii'))),
+      ),
+      ...PERMITTED_RANGES.map(([address, prefixLength]) => {
+        const mask =
+          address.kind() === 'ipv4'
+            ? ipaddr.IPv4.subnetMaskFromPrefixLength(prefixLength)
+            : ipaddr.IPv6.subnetMaskFromPrefixLength(prefixLength);
+
+        // GeneralSubtree with an iPAddress [7], the address followed by its mask
+        return der(
+          0x30,
+          der(
+            0x87,
+            Buffer.from([...address.toByteArray(), ...mask.toByteArray()]),
+          ),
+        );
+      }),
+    ),
+  );
+
+const readFile = async (file: string): Promise<string | undefined> => {
+  try {
+    return await fs.promises.readFile(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+};
+
+// readers never see a partially written file
+const writeFileAtomic = async (
+  file: string,
+  content: string,
+  mode?: number,
+): Promise<void> => {
+  const temporaryFile = `${file}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+
+  try {
+    await fs.promises.writeFile(temporaryFile, content, { mode });
+    await fs.promises.rename(temporaryFile, file);
+  } catch (error) {
+    await fs.promises.rm(temporaryFile, { force: true });
+    throw error;
+  }
+};
+
+// the lock is taken over once it's older than this, e.g. after a crash
+const LOCK_STALE_TIME = 10_000;
+
+// so dev servers started at the same time don't create different CAs
+const withLock = async <T>(
+  lockPath: string,
+  callback: () => Promise<T>,
+): Promise<T> => {
+  for (;;) {
+    try {
+      await (await fs.promises.open(lockPath, 'wx')).close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+
+      const stats = await fs.promises.stat(lockPath).catch(() => undefined);
+
+      if (stats && Date.now() - stats.mtimeMs > LOCK_STALE_TIME) {
+        await fs.promises.rm(lockPath, { force: true });
+      } else {
+        await delay(100);
+      }
+    }
+  }
+
+  try {
+    return await callback();
+  } finally {
+    await fs.promises.rm(lockPath, { force: true });
+  }
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getTime() + days * DAY);
+
+/**
+ * Commands to trust the CA certificate on the current platform
+ */
+export function getTrustInstructions(certPath: string): string {
+  const commands: Partial<Record<NodeJS.Platform, string>> = {
+    darwin: `sudo security add-trusted-cert -d -r trustRoot -k /Library/Keychains/System.keychain "${certPath}"`,
+    win32: `certutil -addstore -user Root "${certPath}"`,
+    linux: `sudo cp "${certPath}" /usr/local/share/ca-certificates/rspack-dev-server.crt && sudo update-ca-certificates`,
+  };
+  const command = commands[process.platform];
+
+  return [
+    'To trust the certificates of the dev server, add the local CA to the trusted root certificates:',
+    ...(command ? [`  ${command}`] : []),
+    'Firefox uses its own certificate store, import the CA in "Settings > Privacy & Security > Certificates".',
+    `Node.js clients trust it with NODE_EXTRA_CA_CERTS="${certPath}".`,
+  ].join('\n');
+}
+
+// `undefined` when the CA is missing, expired, corrupt or its files don't match
+const readCertificateAuthority = async (
+  certPath: string,
+  keyPath: string,
+): Promise<(CertificateAuthority & { key: string }) | undefined> => {
+  const [cert, key] = await Promise.all([
+    readFile(certPath),
+    readFile(keyPath),
+  ]);
+
+  if (!cert || !key) {
+    return undefined;
+  }
+
+  try {
+    const certificate = new X509Certificate(cert);
+
+    if (
+      certificate.checkPrivateKey(createPrivateKey(key)) &&
+      new Date(certificate.validTo) > new Date()
+    ) {
+      return { cert, key, certPath };
+    }
+  } catch {
+    // created again
+  }
+
+  return undefined;
+};
+
+/**
+ * Loads the local CA from the directory, creating it on the first use
+ */
+export async function getCertificateAuthority(
+  directory: string,
+  logger?: Logger,
+): Promise<CertificateAuthority & { key: string }> {
+  const certPath = path.join(directory, 'rootCA.pem');
+  const keyPath = path.join(directory, 'rootCA-key.pem');
+  const existing = await readCertificateAuthority(certPath, keyPath);
+
+  if (existing) {
+    return existing;
+  }
+
+  // the key can sign certificates trusted by the system, only the user can read it
+  await fs.promises.mkdir(directory, { recursive: true, mode: 0o700 });
+
+  return withLock(path.join(directory, 'rootCA.lock'), async () => {
+    // created by another dev server in the meantime
+    const created = await readCertificateAuthority(certPath, keyPath);
+
+    if (created) {
+      return created;
+    }
+
+    return createCertificateAuthority(certPath, keyPath, logger);
+  });
+}
+
+async function createCertificateAuthority(
+  certPath: string,
+  keyPath: string,
+  logger?: Logger,
+): Promise<CertificateAuthority & { key: string }> {
+  logger?.info('Generating the local certificate authority...');
+
+  const x509 = await import('@peculiar/x509');
+  const algorithm: RsaHashedKeyGenParams = {
+    name: 'RSASSA-PKCS1-v1_5',
+    hash: 'SHA-256',
+    publicExponent: new Uint8Array([1, 0, 1]),
+    modulusLength: 2048,
+  };
+  const keys = await crypto.subtle.generateKey(algorithm, true, [
+    'sign',
+    'verify',
+  ]);
+  const notBefore = new Date();
+  const certificate = await x509.X509CertificateGenerator.createSelfSigned(
+    {
+      serialNumber: randomBytes(16)
+        .toString('hex')
+        .replace(/^[89a-f]/, '0'),
+      name: `CN=${CA_COMMON_NAME}, O=${CA_COMMON_NAME}`,
+      notBefore,
+      notAfter: addDays(notBefore, CA_VALIDITY_DAYS),
+      keys,
+      signingAlgorithm: algorithm,
+      extensions: [
+        new x509.BasicConstraintsExtension(true, 0, true),
+        new x509.KeyUsagesExtension(
+          x509.KeyUsageFlags.keyCertSign | x509.KeyUsageFlags.cRLSign,
+          true,
+        ),
+        new x509.Extension(
+          NAME_CONSTRAINTS_OID,
+          true,
+          new Uint8Array(getNameConstraints()),
+        ),
+        await x509.SubjectKeyIdentifierExtension.create(
+          keys.publicKey,
+          false,
+          crypto,
+        ),
+      ],
+    },
+    crypto,
+  );
+  const pemCert = certificate.toString('pem');
+  const pemKey = KeyObject.from(keys.privateKey).export({
+    type: 'pkcs8',
+    format: 'pem',
+  }) as string;
+
+  await writeFileAtomic(keyPath, pemKey, 0o600);
+  await writeFileAtomic(certPath, pemCert);
+
+  logger?.info(`Local CA: ${certPath}\n${getTrustInstructions(certPath)}`);
+
+  return { cert: pemCert, key: pemKey, certPath };
+}
+
+const DEFAULT_ALT_NAMES = [
+  'localhost',
+  '*.localhost',
+  'localhost.localdomain',
+  'lvh.me',
+  '*.lvh.me',
+  '127.0.0.1',
+  '::1',
+  'fe80::1',
+];
+
+type AltName = { type: 2; value: string } | { type: 7; ip: string };
+
+const toAltName = (name: string): AltName | undefined => {
+  const host = name.replace(/^\[(.*)\]$/, '$1');
+
+  if (ipaddr.isValid(host)) {
+    const ip = ipaddr.parse(host);
+
+    // e.g. `0.0.0.0`, which is not an address of the certificate
+    return ip.range() === 'unspecified'
+      ? undefined
+      : // type 7 is IP
+        { type: 7, ip: ip.toString() };
+  }
+
+  // type 2 is DNS
+  return host ? { type: 2, value: host.toLowerCase() } : undefined;
+};
+
+const isPermitted = (altName: AltName): boolean => {
+  if (altName.type === 2) {
+    const name = altName.value.replace(/^\*\./, '');
+
+    return PERMITTED_NAMES.some(
+      (permitted) => name === permitted || name.endsWith(`.${permitted}`),
+    );
+  }
+
+  const ip = ipaddr.parse(altName.ip);
+
+  return PERMITTED_RANGES.some(
+    (range) => range[0].kind() === ip.kind() && ip.match(range),
+  );
+};
+
+const getAltNameKey = (altName: AltName): string =>
+  altName.type === 7 ? `IP:${altName.ip}` : `DNS:${altName.value}`;
+
+// e.g. `DNS:localhost, IP Address:0:0:0:0:0:0:0:1`
+const parseSubjectAltName = (subjectAltName: string | undefined): string[] =>
+  (subjectAltName ?? '')
+    .split(', ')
+    .map((entry) =>
+      entry.startsWith('IP Address:')
+        ? `IP:${ipaddr.parse(entry.slice('IP Address:'.length)).toString()}`
+        : entry,
+    );
+
+const isValidCertificate = (
+  pem: string,
+  ca: string,
+  altNames: AltName[],
+): boolean => {
+  try {
+    const certificate = new X509Certificate(pem);
+    const authority = new X509Certificate(ca);
+    const keys = parseSubjectAltName(certificate.subjectAltName);
+
+    return (
+      certificate.checkIssued(authority) &&
+      certificate.verify(authority.publicKey) &&
+      new Date(certificate.validTo) > addDays(new Date(), RENEWAL_DAYS) &&
+      // issued again when the host names change
+      keys.length === altNames.length &&
+      altNames.every((altName) => keys.includes(getAltNameKey(altName)))
+    );
+  } catch {
+    return false;
+  }
+};
+
+const getPermittedNames = (): string =>
+  [
+    ...PERMITTED_NAMES.map((name) => `${name}, *.${name}`),
+    ...PERMITTED_RANGES.map(
+      ([address, prefixLength]) => `${address.toString()}/${prefixLength}`,
+    ),
+  ].join(', ');
+
+/**
+ * Path of a short-lived certificate for the local host names, the `detectedHosts` and the
+ * `configuredHosts` signed by the local CA of `caDirectory`,
+ * the file holds the private key and the certificate in PEM format.
+ * Detected hosts outside of the name constraints of the CA are left out with a warning,
+ * configured ones are an error.
+ */
+export async function getLocalCertificate(
+  directory: string,
+  caDirectory: string,
+  logger: Logger,
+  detectedHosts: string[] = [],
+  configuredHosts: string[] = [],
+): Promise<string> {
+  const altNames = new Map<string, AltName>();
+  const names = [
+    ...DEFAULT_ALT_NAMES.map((name) => ({ name, configured: false })),
+    ...detectedHosts.map((name) => ({ name, configured: false })),
+    ...configuredHosts.map((name) => ({ name, configured: true })),
+  ];
+
+  for (const { name, configured } of names) {
+    const altName = toAltName(name);
+
+    if (!altName) {
+      continue;
+    }
+
+    if (!isPermitted(altName)) {
+      if (configured) {
+        throw new Error(
+          `The local CA can't sign a certificate for "${name}", its name constraints only permit ${getPermittedNames()}. Use one of these names, or set "server.options.key" and "server.options.cert" to a certificate of your own.`,
+        );
+      }
+
+      logger.warn(
+        `"${name}" is not a local name or a private address, it's left out of the certificate of the local CA`,
+      );
+      continue;
+    }
+
+    altNames.set(getAltNameKey(altName), altName);
+  }
+
+  const ca = await getCertificateAuthority(caDirectory, logger);
+  const certificatePath = path.join(directory, 'server.pem');
+  const certificate = await readFile(certificatePath);
+
+  if (
+    certificate &&
+    isValidCertificate(certificate, ca.cert, [...altNames.values()])
+  ) {
+    return certificatePath;
+  }
+
+  logger.info('Generating SSL certificate...');
+
+  const notBeforeDate = new Date();
+  const pems = await loadSelfsigned().generate(
+    [{ name: 'commonName', value: 'localhost' }],
+    {
+      algorithm: 'sha256',
+      keySize: 2048,
+      notBeforeDate,
+      notAfterDate: addDays(notBeforeDate, CERTIFICATE_VALIDITY_DAYS),
+      ca: { key: ca.key, cert: ca.cert },
+      extensions: [
+        { name: 'basicConstraints', cA: false },
+        {
+          name: 'keyUsage',
+          digitalSignature: true,
+          keyEncipherment: true,
+          critical: true,
+        },
+        { name: 'extKeyUsage', serverAuth: true },
+        { name: 'subjectAltName', altNames: [...altNames.values()] },
+      ],
+    },
+  );
+
+  await fs.promises.mkdir(directory, { recursive: true });
+  await writeFileAtomic(certificatePath, pems.private + pems.cert, 0o600);
+
+  return certificatePath;
+}
+
+/**
+ * Serves the CA certificate as a download, e.g. to trust it on the other devices of the network
+ */
+export function getCertificateAuthorityMiddleware(
+  getAuthority: () => Promise<CertificateAuthority>,
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  return async (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      next();
+      return;
+    }
+
+    const { cert } = await getAuthority();
+
+    res.setHeader('Content-Type', 'application/x-pem-file');
+    res.setHeader(
+      'Content-Disposition',
+      'attachment; filename="rspack-dev-server-ca.pem"',
+    );
+    res.setHeader('Cache-Control', 'no-store');
+
+    // HEAD requests should not return body content
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    res.end(cert);
+  };
+}
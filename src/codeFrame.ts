@@ -0,0 +1,66 @@
+// ANSI escapes are used directly instead of `util.styleText`, the frame is
+// rendered by the overlay as well, so colors must not depend on the terminal
+const RED = '\u001b[31m';
+const BOLD = '\u001b[1m';
+const DIM = '\u001b[2m';
+const RESET = '\u001b[0m';
+
+export interface CodeFrameOptions {
+  linesAbove?: number;
+  linesBelow?: number;
+}
+
+/**
+ * Create a code frame pointing at `line` and `column` (both 1-based):
+ *
+ * ```
+ *   1 | import { render } from './render';
+ * > 2 | render(app);
+ *     | ^
+ *   3 |
+ * ```
+ */
+export function createCodeFrame(
+  source: string,
+  line: number,
+  column?: number,
+  { linesAbove = 2, linesBelow = 3 }: CodeFrameOptions = {},
+): string | undefined {
+  // the trailing newline of a file doesn't start a new line
+  const lines = source.replace(/\r?\n$/, '').split(/\r?\n/);
+
+  if (line < 1 || line > lines.length) {
+    return;
+  }
+
+  const start = Math.max(line - linesAbove, 1);
+  const end = Math.min(line + linesBelow, lines.length);
+  const gutterWidth = String(end).length;
+  const frame: string[] = [];
+
+  for (let current = start; current <= end; current++) {
+    const gutter = `${String(current).padStart(gutterWidth)} |`;
+    const code = lines[current - 1].replace(/\t/g, '  ');
+
+    if (current !== line) {
+      frame.push(`  ${DIM}${gutter}${RESET} ${code}`);
+      continue;
+    }
+
+    frame.push(`${RED}${BOLD}>${RESET} ${gutter} ${code}`);
+
+    if (column && column > 0) {
+      // keep tabs aligned with the code above
+      const indent = lines[current - 1]
+        .slice(0, column - 1)
+        .replace(/\t/g, '  ')
+        .replace(/[^ ]/g, ' ');
+
+      frame.push(
+        `  ${DIM}${' '.repeat(gutterWidth)} |${RESET} ${indent}${RED}${BOLD}^${RESET}`,
+      );
+    }
+  }
+
+  return frame.join('\n');
+}
@@ -1,2 +1,8 @@
 export { Server as RspackDevServer } from './server.js';
+export { PROTOCOL_VERSION } from './protocol.js';
+export type { ClientMessage, ServerMessage } from './protocol.js';
+export type { DevServerPlugin } from './server.js';
+export type { AccessLogEntry, MockHandler } from './types.js';
+export type { MiddlewareList } from './middlewareList.js';
+export type { ServerEvents } from './types.js';
 export type { DevServer as Configuration } from '@rspack/core';
@@ -0,0 +1,106 @@
+import type { Middleware } from './types.js';
+
+const getName = (middleware: Middleware): string | undefined =>
+  typeof middleware === 'function' ? undefined : middleware.name;
+
+/**
+ * The middlewares passed to `setupMiddlewares`, an array with helpers to
+ * modify the chain by the names of the middlewares, e.g. `serve-static`
+ */
+export class MiddlewareList extends Array<Middleware> {
+  // `map`, `filter` etc. return plain arrays
+  static get [Symbol.species](): ArrayConstructor {
+    return Array;
+  }
+
+  #indexOf(name: string): number {
+    const index = this.findIndex((middleware) => getName(middleware) === name);
+
+    if (index === -1) {
+      throw new Error(
+        `No middleware named "${name}", available middlewares: ${this.names().join(', ')}`,
+      );
+    }
+
+    return index;
+  }
+
+  /**
+   * Names of the middlewares in order, unnamed middlewares are listed as `<anonymous>`
+   */
+  names(): string[] {
+    return Array.from(
+      this,
+      (middleware) => getName(middleware) ?? '<anonymous>',
+    );
+  }
+
+  /**
+   * Inserts middlewares before the first middleware named `name`
+   */
+  insertBefore(name: string, ...middlewares: Middleware[]): this {
+    this.splice(this.#indexOf(name), 0, ...middlewares);
+
+    return this;
+  }
+
+  /**
+   * Inserts middlewares after the last middleware named `name`
+   */
+  insertAfter(name: string, ...middlewares: Middleware[]): this {
+    this.#indexOf(name);
+
+    const index = this.findLastIndex(
+      (middleware) => getName(middleware) === name,
+    );
+
+    this.splice(index + 1, 0, ...middlewares);
+
+    return this;
+  }
+
+  /**
+   * Replaces the middlewares named `name`, e.g. every `serve-static` middleware,
+   * with `middleware` at the position of the first one
+   */
+  replace(name: string, middleware: Middleware): this {
+    const index = this.#indexOf(name);
+
+    this.remove(name);
+    this.splice(index, 0, middleware);
+
+    return this;
+  }
+
+  /**
+   * Removes the middlewares named `name`
+   */
+  remove(name: string): this {
+    this.#indexOf(name);
+
+    for (let index = this.length - 1; index >= 0; index--) {
+      if (getName(this[index]) === name) {
+        this.splice(index, 1);
+      }
+    }
+
+    return this;
+  }
+}
+
+/**
+ * Describes the middleware chain for debugging, one middleware with its path per line
+ */
+export function describeMiddlewares(middlewares: Middleware[]): string {
+  return middlewares
+    .map((middleware, index) => {
+      const name = getName(middleware) ?? '<anonymous>';
+      const path =
+        typeof middleware === 'function' || !middleware.path
+          ? ''
+          : ` (${middleware.path})`;
+
+      return `${index + 1}. ${name}${path}`;
+    })
+    .join('\n');
+}
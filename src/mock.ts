@@ -0,0 +1,464 @@
+import * as fs from 'node:fs';
+import { createRequire, Module } from 'node:module';
+import * as path from 'node:path';
+import { setTimeout as delay } from 'node:timers/promises';
+import * as vm from 'node:vm';
+import type { rspack } from '@rspack/core';
+import type {
+  MockHandler,
+  NormalizedMock,
+  Request,
+  Response,
+} from './types.js';
+
+type TransformSync = typeof rspack.experiments.swc.transformSync;
+
+const MODULE_EXTENSIONS = ['.js', '.cjs', '.mjs', '.ts', '.cts', '.mts'];
+const METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+interface MockModule {
+  [method: string]: unknown;
+  default?: MockHandler;
+  delay?: number;
+  status?: number;
+}
+
+interface LoadedModule {
+  exports: unknown;
+  /** the file and the files of the mock directory it requires, transitively */
+  dependencies: Set<string>;
+}
+
+interface MockMatch {
+  route: MockRoute;
+  params: Record<string, string>;
+  mod: MockModule | undefined;
+  handler: MockHandler | undefined;
+}
+
+interface MockRoute {
+  file: string;
+  /** path segments, `[name]` segments are parameters */
+  segments: string[];
+  json: boolean;
+}
+
+/**
+ * Converts a file of the mock directory to its route,
+ * e.g. `api/users/[id].ts` to `/api/users/:id` and `api/index.json` to `/api`
+ */
+export function getMockRoute(directory: string, file: string): MockRoute {
+  const relativePath = path.relative(directory, file);
+  const extension = path.extname(relativePath);
+  const segments = relativePath
+    .slice(0, -extension.length)
+    .split(path.sep)
+    .filter(Boolean);
+
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+
+  return { file, segments, json: extension === '.json' };
+}
+
+const isParam = (segment: string) =>
+  segment.startsWith('[') && segment.endsWith(']');
+
+// static segments take precedence over parameters, modules over JSON fixtures
+const compareRoutes = (a: MockRoute, b: MockRoute): number => {
+  for (let i = 0; i < Math.min(a.segments.length, b.segments.length); i++) {
+    const order =
+      Number(isParam(a.segments[i])) - Number(isParam(b.segments[i]));
+
+    if (order !== 0) {
+      return order;
+    }
+  }
+
+  return Number(a.json) - Number(b.json) || a.file.localeCompare(b.file);
+};
+
+/**
+ * Returns the parameters of the route when it matches the path segments
+ */
+export function matchMockRoute(
+  route: MockRoute,
+  segments: string[],
+): Record<string, string> | undefined {
+  if (route.segments.length !== segments.length) {
+    return;
+  }
+
+  const params: Record<string, string> = {};
+
+  for (const [index, segment] of route.segments.entries()) {
+    if (isParam(segment)) {
+      params[segment.slice(1, -1)] = segments[index];
+    } else if (segment !== segments[index]) {
+      return;
+    }
+  }
+
+  return params;
+}
+
+const isMockFile = (file: string): boolean => {
+  const name = path.basename(file);
+
+  return (
+    !name.startsWith('_') &&
+    !/\.d\.[cm]?ts$/.test(name) &&
+    (name.endsWith('.json') || MODULE_EXTENSIONS.includes(path.extname(name)))
+  );
+};
+
+const readBody = async (req: Request): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  const body = Buffer.concat(chunks).toString();
+
+  if (!body) {
+    return undefined;
+  }
+
+  return /[/+]json\b/.test(req.headers['content-type'] || '')
+    ? JSON.parse(body)
+    : body;
+};
+
+const send = (res: Response, body: unknown): void => {
+  if (typeof body === 'string' || Buffer.isBuffer(body)) {
+    if (!res.hasHeader('Content-Type')) {
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    }
+
+    res.end(body);
+    return;
+  }
+
+  if (!res.hasHeader('Content-Type')) {
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  }
+
+  res.end(JSON.stringify(body));
+};
+
+const getNumberHeader = (req: Request, name: string): number | undefined => {
+  const value = Number(req.headers[name]);
+
+  return Number.isFinite(value) && req.headers[name] ? value : undefined;
+};
+
+const isTypeScript = (file: string): boolean => /\.[cm]?ts$/.test(file);
+
+/**
+ * Serves the route handlers and JSON fixtures of the `mock` directory,
+ * the files are scanned again and the changed modules reloaded after `invalidate()`
+ */
+export class MockApi {
+  options: NormalizedMock;
+  #logger: { error: (message: string) => void };
+  #transformSync: TransformSync;
+  #routes: Promise<MockRoute[]> | undefined;
+  // modules are evaluated by the mock API, so they can be dropped when they change,
+  // unlike the entries of the ESM cache
+  #modules = new Map<string, LoadedModule>();
+
+  constructor(
+    options: NormalizedMock,
+    logger: { error: (message: string) => void },
+    transformSync: TransformSync,
+  ) {
+    this.options = options;
+    this.#logger = logger;
+    this.#transformSync = transformSync;
+  }
+
+  invalidate(file?: string): void {
+    this.#routes = undefined;
+
+    for (const [key, loaded] of this.#modules) {
+      // the handlers importing a changed helper are reloaded too
+      if (!file || loaded.dependencies.has(file)) {
+        this.#modules.delete(key);
+      }
+    }
+  }
+
+  async #scan(): Promise<MockRoute[]> {
+    const { directory } = this.options;
+    let files: string[];
+
+    try {
+      files = await fs.promises.readdir(directory, { recursive: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+
+      throw error;
+    }
+
+    return files
+      .map((file) => path.join(directory, file))
+      .filter(isMockFile)
+      .map((file) => getMockRoute(directory, file))
+      .sort(compareRoutes);
+  }
+
+  // relative requests of files in the mock directory are loaded by the mock API,
+  // with the extensions of TypeScript files being optional
+  #resolveFile(specifier: string, parent: string): string | undefined {
+    if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+      return;
+    }
+
+    const base = path.resolve(path.dirname(parent), specifier);
+    const relativePath = path.relative(this.options.directory, base);
+
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return;
+    }
+
+    const candidates = [
+      base,
+      ...[...MODULE_EXTENSIONS, '.json'].map((extension) => base + extension),
+      ...MODULE_EXTENSIONS.map((extension) =>
+        path.join(base, `index${extension}`),
+      ),
+    ];
+
+    return candidates.find((candidate) => {
+      const extension = path.extname(candidate);
+
+      return (
+        (extension === '.json' || MODULE_EXTENSIONS.includes(extension)) &&
+        fs.statSync(candidate, { throwIfNoEntry: false })?.isFile()
+      );
+    });
+  }
+
+  #load(file: string): LoadedModule {
+    const cached = this.#modules.get(file);
+
+    if (cached) {
+      return cached;
+    }
+
+    const source = fs.readFileSync(file, 'utf8');
+    const loaded: LoadedModule = {
+      exports: {},
+      dependencies: new Set([file]),
+    };
+
+    // cached before the evaluation for circular requires
+    this.#modules.set(file, loaded);
+
+    try {
+      if (path.extname(file) === '.json') {
+        loaded.exports = JSON.parse(source);
+        return loaded;
+      }
+
+      const { code } = this.#transformSync(source, {
+        filename: file,
+        sourceMaps: 'inline',
+        isModule: 'unknown',
+        jsc: {
+          parser: isTypeScript(file)
+            ? { syntax: 'typescript' }
+            : { syntax: 'ecmascript' },
+          target: 'es2022',
+        },
+        module: { type: 'commonjs' },
+      });
+      const nativeRequire = createRequire(file);
+      const mockRequire = Object.assign((specifier: string): unknown => {
+        const resolved = this.#resolveFile(specifier, file);
+
+        if (!resolved) {
+          return nativeRequire(specifier);
+        }
+
+        const dependency = this.#load(resolved);
+
+        for (const item of dependency.dependencies) {
+          loaded.dependencies.add(item);
+        }
+
+        return dependency.exports;
+      }, nativeRequire);
+      const module = { exports: loaded.exports };
+      const evaluate = vm.runInThisContext(Module.wrap(code), {
+        filename: file,
+      });
+
+      evaluate.call(
+        module.exports,
+        module.exports,
+        mockRequire,
+        module,
+        file,
+        path.dirname(file),
+      );
+      loaded.exports = module.exports;
+    } catch (error) {
+      this.#modules.delete(file);
+      throw error;
+    }
+
+    return loaded;
+  }
+
+  #import(file: string): MockModule {
+    const { exports } = this.#load(file);
+
+    // like `import()`, the exports of CommonJS modules are their default export
+    return (exports as { __esModule?: boolean }).__esModule
+      ? (exports as MockModule)
+      : { ...(exports as MockModule), default: exports as MockHandler };
+  }
+
+  async #resolve(
+    method: string,
+    segments: string[],
+  ): Promise<MockMatch | undefined> {
+    this.#routes ??= this.#scan();
+
+    for (const route of await this.#routes) {
+      const params = matchMockRoute(route, segments);
+
+      if (!params) {
+        continue;
+      }
+
+      if (route.json) {
+        if (method === 'GET' || method === 'HEAD') {
+          return { route, params, mod: undefined, handler: undefined };
+        }
+
+        continue;
+      }
+
+      const mod = this.#import(route.file);
+      const handler = [method, ...(method === 'HEAD' ? ['GET'] : []), 'default']
+        .map((name) => mod[name])
+        .find((item) => typeof item === 'function') as MockHandler | undefined;
+
+      if (handler) {
+        return { route, params, mod, handler };
+      }
+    }
+  }
+
+  middleware = async (
+    req: Request,
+    res: Response,
+    next: (error?: unknown) => void,
+  ): Promise<void> => {
+    const method = (req.method || 'GET').toUpperCase();
+
+    if (!METHODS.includes(method)) {
+      next();
+      return;
+    }
+
+    const { pathname, searchParams } = new URL(
+      req.url || '/',
+      'http://localhost',
+    );
+    let segments: string[];
+    let match: MockMatch | undefined;
+
+    try {
+      segments = pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch {
+      // malformed percent-encoding, left to the next middlewares
+      next();
+      return;
+    }
+
+    try {
+      match = await this.#resolve(method, segments);
+    } catch (error) {
+      this.#fail(res, error);
+      return;
+    }
+
+    if (!match) {
+      next();
+      return;
+    }
+
+    const { route, params, mod, handler } = match;
+    let body: unknown;
+
+    if (handler && method !== 'GET' && method !== 'HEAD') {
+      try {
+        body = await readBody(req);
+      } catch (error) {
+        // e.g. invalid JSON, an error of the client rather than of the mock
+        res.statusCode = 400;
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.end(
+          `Invalid request body: ${error instanceof Error ? error.message : error}`,
+        );
+        return;
+      }
+    }
+
+    const latency =
+      getNumberHeader(req, 'x-mock-delay') ?? mod?.delay ?? this.options.delay;
+    const status = getNumberHeader(req, 'x-mock-status') ?? mod?.status;
+
+    if (latency > 0) {
+      await delay(latency);
+    }
+
+    if (status) {
+      res.statusCode = status;
+    }
+
+    try {
+      if (!handler) {
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.end(await fs.promises.readFile(route.file));
+        return;
+      }
+
+      const result = await handler(req, res, {
+        params,
+        query: searchParams,
+        body,
+      });
+
+      if (typeof result !== 'undefined' && !res.headersSent) {
+        send(res, result);
+      }
+    } catch (error) {
+      this.#fail(res, error, route.file);
+    }
+  };
+
+  #fail(res: Response, error: unknown, file?: string): void {
+    const message = error instanceof Error ? error.message : String(error);
+
+    this.#logger.error(
+      file
+        ? `Error in mock "${path.relative(this.options.directory, file)}": ${message}`
+        : `Error while loading mocks: ${message}`,
+    );
+
+    if (!res.headersSent) {
+      res.statusCode = 500;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    }
+
+    res.end(message);
+  }
+}
@@ -0,0 +1,289 @@
+import { setTimeout as delay } from 'node:timers/promises';
+import type { NextFunction } from 'connect-next';
+import type {
+  NetworkRule,
+  NormalizedNetwork,
+  Request,
+  Response,
+} from './types.js';
+
+// the routes of the dev server itself are never affected, so the conditions can be toggled
+const BUILT_IN_ROUTES = '/rspack-dev-server/';
+const THROTTLE_INTERVAL = 100;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+
+const toRegExp = (pattern: string | RegExp): RegExp =>
+  typeof pattern === 'string'
+    ? new RegExp(`^${escapeRegExp(pattern).replace(/\*/g, '.*')}$`)
+    : pattern;
+
+/**
+ * Whether the rule matches the URL, strings are matched against the path with `*` matching any characters,
+ * regular expressions are tested against the path and the query
+ */
+export function matchNetworkRule(rule: NetworkRule, url: string): boolean {
+  const { pathname } = new URL(url, 'http://localhost');
+
+  return (Array.isArray(rule.test) ? rule.test : [rule.test]).some((pattern) =>
+    toRegExp(pattern).test(typeof pattern === 'string' ? pathname : url),
+  );
+}
+
+const getLatency = (latency: NetworkRule['latency']): number => {
+  if (Array.isArray(latency)) {
+    const [min, max] = latency;
+
+    return min + Math.random() * (max - min);
+  }
+
+  return latency ?? 0;
+};
+
+const getRate = (rate: boolean | number | undefined): number =>
+  typeof rate === 'number' ? rate : rate ? 1 : 0;
+
+type WriteCallback = (error?: Error | null) => void;
+
+// writes the response body in slices, `bytesPerSecond` at most
+const throttle = (res: Response, bytesPerSecond: number): void => {
+  const write = res.write.bind(res) as (chunk: Buffer) => boolean;
+  const end = res.end.bind(res) as (callback?: () => void) => Response;
+  const queue: { data: Buffer; callback?: WriteCallback }[] = [];
+  const budget = Math.max(
+    1,
+    Math.round((bytesPerSecond * THROTTLE_INTERVAL) / 1000),
+  );
+  let timer: NodeJS.Timeout | undefined;
+  let ending: (() => void) | undefined;
+
+  const pump = () => {
+    let remaining = budget;
+
+    timer = undefined;
+
+    while (remaining > 0 && queue.length > 0) {
+      const item = queue[0];
+      const slice = item.data.subarray(0, remaining);
+
+      write(slice);
+      remaining -= slice.length;
+
+      if (slice.length === item.data.length) {
+        queue.shift();
+        item.callback?.();
+      } else {
+        item.data = item.data.subarray(slice.length);
+      }
+    }
+
+    if (queue.length > 0) {
+      timer = setTimeout(pump, THROTTLE_INTERVAL);
+      return;
+    }
+
+    if (ending) {
+      ending();
+      return;
+    }
+
+    res.emit('drain');
+  };
+
+  const enqueue = (
+    chunk: unknown,
+    encoding: unknown,
+    callback?: WriteCallback,
+  ) => {
+    if (chunk !== null && typeof chunk !== 'undefined') {
+      queue.push({
+        data: Buffer.isBuffer(chunk)
+          ? chunk
+          : Buffer.from(
+              chunk as string,
+              typeof encoding === 'string'
+                ? (encoding as BufferEncoding)
+                : undefined,
+            ),
+        callback,
+      });
+    }
+
+    timer ??= setTimeout(pump, THROTTLE_INTERVAL);
+  };
+
+  res.write = ((chunk: unknown, encoding?: unknown, callback?: unknown) => {
+    enqueue(
+      chunk,
+      encoding,
+      (typeof encoding === 'function' ? encoding : callback) as WriteCallback,
+    );
+
+    // ask the piped streams to wait for `drain`
+    return false;
+  }) as Response['write'];
+  res.end = ((chunk?: unknown, encoding?: unknown, callback?: unknown) => {
+    const onEnd = [chunk, encoding, callback].find(
+      (arg) => typeof arg === 'function',
+    ) as (() => void) | undefined;
+
+    ending = () => end(onEnd);
+    enqueue(typeof chunk === 'function' ? undefined : chunk, encoding);
+
+    return res;
+  }) as Response['end'];
+
+  res.on('close', () => {
+    clearTimeout(timer);
+  });
+};
+
+/**
+ * Simulates slow and unreliable networks for the requests matching the rules of the `network` option
+ */
+export class NetworkConditions {
+  options: NormalizedNetwork;
+
+  constructor(options: NormalizedNetwork) {
+    this.options = options;
+  }
+
+  getState(): { enabled: boolean; rules: (NetworkRule & { name: string })[] } {
+    return {
+      enabled: this.options.enabled,
+      rules: this.options.rules.map((rule, index) => ({
+        ...rule,
+        name: rule.name ?? String(index),
+        test: (Array.isArray(rule.test) ? rule.test : [rule.test]).map(String),
+      })),
+    };
+  }
+
+  /**
+   * Enables or disables all the conditions or only the rule with the name, or the index of unnamed rules,
+   * returns `false` for unknown rules
+   */
+  setEnabled(enabled: boolean, ruleName?: string): boolean {
+    if (typeof ruleName === 'undefined') {
+      this.options.enabled = enabled;
+      return true;
+    }
+
+    const rule = this.options.rules.find(
+      (item, index) => (item.name ?? String(index)) === ruleName,
+    );
+
+    if (!rule) {
+      return false;
+    }
+
+    rule.enabled = enabled;
+
+    return true;
+  }
+
+  middleware = async (
+    req: Request,
+    res: Response,
+    next: (error?: unknown) => void,
+  ): Promise<void> => {
+    const url = req.url || '/';
+
+    if (!this.options.enabled || url.startsWith(BUILT_IN_ROUTES)) {
+      next();
+      return;
+    }
+
+    const rule = this.options.rules.find(
+      (item) => item.enabled !== false && matchNetworkRule(item, url),
+    );
+
+    if (!rule) {
+      next();
+      return;
+    }
+
+    const latency = getLatency(rule.latency);
+
+    if (latency > 0) {
+      await delay(latency);
+    }
+
+    if (Math.random() < getRate(rule.drop)) {
+      req.socket.destroy();
+      return;
+    }
+
+    if (rule.failure && Math.random() < (rule.failure.rate ?? 1)) {
+      res.statusCode = rule.failure.status ?? 503;
+      res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+      res.end(`Failed by the network rule "${rule.name ?? 'unnamed'}"`);
+      return;
+    }
+
+    if (rule.bandwidth) {
+      throttle(res, rule.bandwidth);
+    }
+
+    next();
+  };
+}
+
+/**
+ * Serves the state of the conditions as JSON, `POST` requests with `?enabled=false` disable them,
+ * or only the rule named by `rule`, and with `?enabled=true` enable them again.
+ * `isAllowed` checks the `Host` and `Origin` headers of the `POST` requests, so other sites can't toggle them
+ */
+export function getNetworkMiddleware(
+  network: NetworkConditions,
+  isAllowed: (req: Request) => boolean,
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    if (
+      req.method !== 'GET' &&
+      req.method !== 'HEAD' &&
+      req.method !== 'POST'
+    ) {
+      next();
+      return;
+    }
+
+    if (req.method === 'POST') {
+      if (!isAllowed(req)) {
+        res.statusCode = 403;
+        res.end('Invalid Host/Origin header');
+        return;
+      }
+
+      const { searchParams } = new URL(
+        req.url || '/',
+        `http://${req.headers.host}`,
+      );
+      const enabled = searchParams.get('enabled');
+
+      if (
+        enabled !== null &&
+        !network.setEnabled(
+          enabled !== 'false',
+          searchParams.get('rule') ?? undefined,
+        )
+      ) {
+        res.statusCode = 404;
+        res.end(`Unknown network rule "${searchParams.get('rule')}"`);
+        return;
+      }
+    }
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-store');
+
+    // HEAD requests should not return body content
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    res.end(JSON.stringify(network.getState()));
+  };
+}
@@ -0,0 +1,82 @@
+import type { StatsCompilation } from '@rspack/core';
+import type { ForwardConsoleLevel } from './types.js';
+
+/**
+ * Version of the messages exchanged between the dev server and the client,
+ * bump it with incompatible changes. The client mirrors it in `client-src/protocol.ts`.
+ * Clients from before the handshake ignore the `protocol` message, they understand version 1.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export type StatsProblem = NonNullable<StatsCompilation['errors']>[number];
+
+/**
+ * Messages sent by the dev server, encoded as JSON `{ type, data, params }`
+ */
+export type ServerMessage =
+  | { type: 'protocol'; data: { version: number } }
+  | { type: 'hot' }
+  | { type: 'liveReload' }
+  | { type: 'invalid' }
+  | { type: 'hash'; data: string | undefined }
+  | { type: 'still-ok' }
+  | { type: 'ok' }
+  | {
+      type: 'warnings';
+      data: StatsProblem[];
+      params?: { preventReloading?: boolean };
+    }
+  | { type: 'errors'; data: StatsProblem[] }
+  | { type: 'error'; data: string }
+  | { type: 'static-changed'; data: string }
+  | { type: 'progress'; data: boolean | 'linear' | 'circular' }
+  | { type: 'progress-update'; data: { percent: number; msg: string } }
+  | { type: 'reconnect'; data: number }
+  | {
+      type: 'proxy-error';
+      data: {
+        method: string;
+        path: string;
+        target: string | undefined;
+        code: string | undefined;
+        message: string;
+      };
+    }
+  | {
+      type: 'overlay';
+      data:
+        | boolean
+        | {
+            // filter functions are encoded as strings
+            errors?: boolean | string;
+            warnings?: boolean | string;
+            runtimeErrors?: boolean | string;
+            trustedTypesPolicyName?: string;
+          };
+    }
+  | { type: 'custom'; data: { event: string; data?: unknown } };
+
+/**
+ * Messages sent by the client
+ */
+export type ClientMessage =
+  | { type: 'protocol'; data: { version: number } }
+  | { type: 'custom'; data: { event: string; data?: unknown } }
+  | {
+      type: 'console';
+      data: { level: ForwardConsoleLevel; args: string[]; url?: string };
+    };
+
+export type ServerMessageType = ServerMessage['type'];
+
+export type ServerMessageData<T extends ServerMessageType> =
+  Extract<ServerMessage, { type: T }> extends { data: infer Data }
+    ? Data
+    : undefined;
+
+export type ServerMessageParams<T extends ServerMessageType> =
+  Extract<ServerMessage, { type: T }> extends { params?: infer Params }
+    ? unknown extends Params
+      ? undefined
+      : Params
+    : undefined;
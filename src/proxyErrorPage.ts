@@ -0,0 +1,83 @@
+import type { ServerMessageData } from './protocol.js';
+
+const escapeHtml = (value: string): string =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({
+        '&': '&amp;',
+        '<': '&lt;',
+        '>': '&gt;',
+        '"': '&quot;',
+        "'": '&#39;',
+      })[char] as string,
+  );
+
+/**
+ * HTML page served to navigations which could not be proxied,
+ * it describes the target, the path and the error code
+ */
+export function getProxyErrorPage(
+  status: number,
+  { method, path, target, code, message }: ServerMessageData<'proxy-error'>,
+): string {
+  const rows = [
+    ['Request', `${method} ${path}`],
+    ['Target', target ?? 'unknown'],
+    // `AggregateError`s of the connection attempts have no message
+    ['Error', [code, message].filter(Boolean).join(': ')],
+  ]
+    .map(
+      ([name, value]) =>
+        `<tr><th>${name}</th><td><code>${escapeHtml(value)}</code></td></tr>`,
+    )
+    .join('\n          ');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>${status} Proxy error</title>
+    <style>
+      body {
+        margin: 0;
+        display: flex;
+        min-height: 100vh;
+        align-items: center;
+        justify-content: center;
+        font-family: system-ui, sans-serif;
+        color: #333;
+      }
+      main {
+        width: min(640px, 80vw);
+      }
+      th {
+        padding-right: 16px;
+        text-align: left;
+        vertical-align: top;
+        color: #777;
+        font-weight: normal;
+      }
+      td {
+        word-break: break-all;
+      }
+      p {
+        color: #777;
+        font-size: 14px;
+      }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>The proxy target is unavailable</h1>
+      <table>
+        <tbody>
+          ${rows}
+        </tbody>
+      </table>
+      <p>Check that the target server is running, then reload the page.</p>
+    </main>
+  </body>
+</html>
+`;
+}
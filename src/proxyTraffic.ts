@@ -0,0 +1,577 @@
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs';
+import type { IncomingHttpHeaders, IncomingMessage } from 'node:http';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import * as zlib from 'node:zlib';
+import type {
+  ProxyPlugin,
+  ProxyTrafficMatch,
+  ProxyTrafficOptions,
+} from './types.js';
+
+type Logger = Pick<Console, 'info' | 'warn' | 'error'>;
+
+interface TrafficEntry {
+  method: string;
+  /** path and query of the request, after `pathRewrite` */
+  path: string;
+  /** sha256 of the request body */
+  bodyHash: string;
+  url: string;
+  requestHeaders: IncomingHttpHeaders;
+  requestBody: Buffer;
+  status: number;
+  statusText: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+  startedAt: Date;
+  time: number;
+}
+
+interface JsonTrafficFile {
+  version: 1;
+  entries: {
+    request: { method: string; path: string; bodyHash: string };
+    response: {
+      status: number;
+      headers: IncomingHttpHeaders;
+      body: string;
+      encoding: 'utf8' | 'base64';
+    };
+  }[];
+}
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    /** path of the request on the dev server, after `pathRewrite` */
+    _path?: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string; encoding?: 'base64' };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarHeader[];
+    content: {
+      size: number;
+      mimeType: string;
+      text: string;
+      encoding?: 'base64';
+    };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+const DEFAULT_MATCH: ProxyTrafficMatch[] = ['method', 'path', 'body'];
+
+// recomputed or meaningless when the response is replayed
+const SKIPPED_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'transfer-encoding',
+  'content-length',
+]);
+
+// credentials are left out of the recordings, which are often shared or committed
+const CREDENTIAL_HEADERS = new Set([
+  'cookie',
+  'authorization',
+  'proxy-authorization',
+  'set-cookie',
+]);
+
+// recordings are written once the responses arriving together are all saved
+const WRITE_DELAY = 100;
+
+const DECODERS: Record<string, (body: Buffer) => Promise<Buffer>> = {
+  gzip: promisify(zlib.gunzip),
+  'x-gzip': promisify(zlib.gunzip),
+  deflate: promisify(zlib.inflate),
+  br: promisify(zlib.brotliDecompress),
+  identity: async (body) => body,
+};
+
+const withoutCredentials = (
+  headers: IncomingHttpHeaders,
+): IncomingHttpHeaders =>
+  Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !CREDENTIAL_HEADERS.has(name)),
+  );
+
+const hash = (body: Buffer): string =>
+  createHash('sha256').update(body).digest('hex');
+
+const isText = (headers: IncomingHttpHeaders): boolean =>
+  !headers['content-encoding'] &&
+  /^text\/|[/+](json|xml|javascript)\b/.test(headers['content-type'] || '');
+
+const encode = (
+  body: Buffer,
+  headers: IncomingHttpHeaders,
+): { text: string; encoding?: 'base64' } =>
+  isText(headers)
+    ? { text: body.toString('utf8') }
+    : { text: body.toString('base64'), encoding: 'base64' };
+
+const toHarHeaders = (headers: IncomingHttpHeaders): HarHeader[] =>
+  Object.entries(headers).flatMap(([name, value]) =>
+    (Array.isArray(value) ? value : [value ?? '']).map((item) => ({
+      name,
+      value: String(item),
+    })),
+  );
+
+const fromHarHeaders = (headers: HarHeader[]): IncomingHttpHeaders => {
+  const result: Record<string, string | string[]> = {};
+
+  for (const { name, value } of headers) {
+    const key = name.toLowerCase();
+    const existing = result[key];
+
+    result[key] =
+      typeof existing === 'undefined'
+        ? value
+        : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+
+  return result;
+};
+
+/**
+ * Decodes the response body to keep the recordings readable,
+ * bodies with unknown encodings or which fail to decode are recorded as they are.
+ */
+const decode = async (
+  body: Buffer,
+  headers: IncomingHttpHeaders,
+): Promise<{ body: Buffer; headers: IncomingHttpHeaders }> => {
+  const encodings = (headers['content-encoding'] || '')
+    .split(',')
+    .map((encoding) => encoding.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (
+    encodings.length === 0 ||
+    !encodings.every((encoding) => Object.hasOwn(DECODERS, encoding))
+  ) {
+    return { body, headers };
+  }
+
+  try {
+    let decoded = body;
+
+    // the encodings are listed in the order they were applied
+    for (const encoding of encodings.reverse()) {
+      decoded = await DECODERS[encoding](decoded);
+    }
+
+    return {
+      body: decoded,
+      headers: Object.fromEntries(
+        Object.entries(headers).filter(
+          ([name]) => name !== 'content-encoding' && name !== 'content-length',
+        ),
+      ),
+    };
+  } catch {
+    return { body, headers };
+  }
+};
+
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks);
+};
+
+const toHar = (entries: TrafficEntry[]): string => {
+  const harEntries: HarEntry[] = entries.map((entry) => {
+    const url = new URL(entry.url);
+    const content = encode(entry.body, entry.headers);
+
+    return {
+      startedDateTime: entry.startedAt.toISOString(),
+      time: entry.time,
+      request: {
+        method: entry.method,
+        url: entry.url,
+        _path: entry.path,
+        httpVersion: 'HTTP/1.1',
+        headers: toHarHeaders(entry.requestHeaders),
+        queryString: [...url.searchParams].map(([name, value]) => ({
+          name,
+          value,
+        })),
+        ...(entry.requestBody.length > 0
+          ? {
+              postData: {
+                mimeType: entry.requestHeaders['content-type'] || '',
+                ...encode(entry.requestBody, entry.requestHeaders),
+              },
+            }
+          : {}),
+        headersSize: -1,
+        bodySize: entry.requestBody.length,
+      },
+      response: {
+        status: entry.status,
+        statusText: entry.statusText,
+        httpVersion: 'HTTP/1.1',
+        headers: toHarHeaders(entry.headers),
+        content: {
+          size: entry.body.length,
+          mimeType: entry.headers['content-type'] || '',
+          ...content,
+        },
+        redirectURL: entry.headers.location || '',
+        headersSize: -1,
+        bodySize: entry.body.length,
+      },
+      cache: {},
+      timings: { send: 0, wait: entry.time, receive: 0 },
+    };
+  });
+
+  return JSON.stringify(
+    {
+      log: {
+        version: '1.2',
+        creator: { name: '@rspack/dev-server', version: '1' },
+        entries: harEntries,
+      },
+    },
+    null,
+    2,
+  );
+};
+
+const fromHar = (content: string): TrafficEntry[] => {
+  const { log } = JSON.parse(content) as { log: { entries: HarEntry[] } };
+
+  return log.entries.map(({ startedDateTime, time, request, response }) => {
+    const url = new URL(request.url);
+    const requestBody = request.postData
+      ? Buffer.from(
+          request.postData.text,
+          request.postData.encoding === 'base64' ? 'base64' : 'utf8',
+        )
+      : Buffer.alloc(0);
+
+    return {
+      method: request.method,
+      // HAR files from other tools only have the URL
+      path: request._path ?? url.pathname + url.search,
+      bodyHash: hash(requestBody),
+      url: request.url,
+      requestHeaders: fromHarHeaders(request.headers),
+      requestBody,
+      status: response.status,
+      statusText: response.statusText,
+      headers: fromHarHeaders(response.headers),
+      body: Buffer.from(
+        response.content.text ?? '',
+        response.content.encoding === 'base64' ? 'base64' : 'utf8',
+      ),
+      startedAt: new Date(startedDateTime),
+      time,
+    };
+  });
+};
+
+const toJson = (entries: TrafficEntry[]): string => {
+  const file: JsonTrafficFile = {
+    version: 1,
+    entries: entries.map((entry) => {
+      const { text, encoding } = encode(entry.body, entry.headers);
+
+      return {
+        request: {
+          method: entry.method,
+          path: entry.path,
+          bodyHash: entry.bodyHash,
+        },
+        response: {
+          status: entry.status,
+          headers: entry.headers,
+          body: text,
+          encoding: encoding ?? 'utf8',
+        },
+      };
+    }),
+  };
+
+  return JSON.stringify(file, null, 2);
+};
+
+const fromJson = (content: string): TrafficEntry[] => {
+  const file = JSON.parse(content) as JsonTrafficFile;
+
+  return file.entries.map(({ request, response }) => ({
+    ...request,
+    url: request.path,
+    requestHeaders: {},
+    requestBody: Buffer.alloc(0),
+    status: response.status,
+    statusText: '',
+    headers: response.headers,
+    body: Buffer.from(response.body, response.encoding),
+    startedAt: new Date(0),
+    time: 0,
+  }));
+};
+
+/**
+ * Returns a `http-proxy-middleware` plugin which records the proxied traffic to `options.file`,
+ * or replays it from there without contacting the target.
+ * Files ending with `.har` use the HAR format, other files a simple JSON format.
+ */
+export function getProxyTrafficPlugin(
+  options: ProxyTrafficOptions,
+  logger: Logger,
+): ProxyPlugin {
+  const file = path.resolve(options.file);
+  const match = options.match ?? DEFAULT_MATCH;
+  const isHar = path.extname(file) === '.har';
+  const getKey = (entry: Pick<TrafficEntry, 'method' | 'path' | 'bodyHash'>) =>
+    [
+      match.includes('method') ? entry.method : '*',
+      match.includes('path') ? entry.path : '*',
+      match.includes('body') ? entry.bodyHash : '*',
+    ].join(' ');
+
+  let entries: Map<string, TrafficEntry> | undefined;
+  let writing = Promise.resolve();
+  let writeTimeout: NodeJS.Timeout | undefined;
+
+  // returns `undefined` when the file can't be read, it's read again the next time
+  const load = (): Map<string, TrafficEntry> | undefined => {
+    if (entries) {
+      return entries;
+    }
+
+    if (!fs.existsSync(file)) {
+      if (options.mode === 'replay') {
+        logger.warn(`No proxy traffic recorded in "${file}"`);
+      }
+
+      entries = new Map();
+      return entries;
+    }
+
+    try {
+      const content = fs.readFileSync(file, 'utf8');
+      const loaded = new Map<string, TrafficEntry>();
+
+      for (const entry of isHar ? fromHar(content) : fromJson(content)) {
+        loaded.set(getKey(entry), entry);
+      }
+
+      entries = loaded;
+      return entries;
+    } catch (error) {
+      logger.error(
+        `Failed to read the proxy traffic recorded in "${file}": ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  };
+
+  const save = (entry: TrafficEntry) => {
+    const recorded = load();
+
+    // the file is not overwritten with the new recordings only
+    if (!recorded) {
+      return;
+    }
+
+    recorded.set(
+      getKey(entry),
+      options.keepCredentials
+        ? entry
+        : {
+            ...entry,
+            requestHeaders: withoutCredentials(entry.requestHeaders),
+            headers: withoutCredentials(entry.headers),
+          },
+    );
+
+    if (writeTimeout) {
+      return;
+    }
+
+    writeTimeout = setTimeout(() => {
+      writeTimeout = undefined;
+      writing = writing
+        .then(async () => {
+          const values = [...recorded.values()];
+
+          await fs.promises.mkdir(path.dirname(file), { recursive: true });
+          await fs.promises.writeFile(
+            file,
+            isHar ? toHar(values) : toJson(values),
+          );
+        })
+        .catch((error) => {
+          logger.error(
+            `Failed to record proxy traffic to "${file}": ${error instanceof Error ? error.message : error}`,
+          );
+        });
+    }, WRITE_DELAY);
+  };
+
+  return (proxyServer) => {
+    if (options.mode === 'replay') {
+      proxyServer.web = async (req, res) => {
+        const method = req.method || 'GET';
+        const requestPath = req.url || '/';
+
+        try {
+          const body = match.includes('body')
+            ? await readBody(req)
+            : Buffer.alloc(0);
+          const recorded = load();
+
+          if (!recorded) {
+            res.statusCode = 500;
+            res.end();
+            return;
+          }
+
+          const entry = recorded.get(
+            getKey({ method, path: requestPath, bodyHash: hash(body) }),
+          );
+
+          if (!entry) {
+            logger.warn(
+              `[HPM] No recorded response for ${method} ${requestPath} in "${file}"`,
+            );
+
+            res.statusCode = 504;
+            res.end();
+            return;
+          }
+
+          res.statusCode = entry.status;
+
+          for (const [name, value] of Object.entries(entry.headers)) {
+            if (!SKIPPED_HEADERS.has(name) && typeof value !== 'undefined') {
+              res.setHeader(name, value);
+            }
+          }
+
+          res.end(entry.body);
+        } catch (error) {
+          // e.g. the client aborted the request while its body was read
+          logger.error(
+            `[HPM] Failed to replay ${method} ${requestPath}: ${error instanceof Error ? error.message : error}`,
+          );
+
+          if (!res.headersSent) {
+            res.statusCode = 500;
+          }
+
+          res.end();
+        }
+      };
+
+      return;
+    }
+
+    const requests = new WeakMap<
+      IncomingMessage,
+      { url: string; body: Buffer[]; startedAt: Date }
+    >();
+
+    proxyServer.on('proxyReq', (proxyReq, req, _res, proxyOptions) => {
+      const origin =
+        proxyOptions.target instanceof URL
+          ? proxyOptions.target.origin
+          : `${proxyReq.protocol}//${proxyReq.host}`;
+      const body: Buffer[] = [];
+
+      // the request body is piped to the proxy request
+      const write = proxyReq.write.bind(proxyReq) as (
+        ...args: unknown[]
+      ) => boolean;
+      const end = proxyReq.end.bind(proxyReq) as (
+        ...args: unknown[]
+      ) => typeof proxyReq;
+
+      proxyReq.write = ((chunk: Buffer | string, ...args: unknown[]) => {
+        body.push(Buffer.from(chunk));
+        return write(chunk, ...args);
+      }) as typeof proxyReq.write;
+      proxyReq.end = ((chunk?: unknown, ...args: unknown[]) => {
+        if (typeof chunk === 'string' || Buffer.isBuffer(chunk)) {
+          body.push(Buffer.from(chunk));
+        }
+
+        return end(chunk, ...args);
+      }) as typeof proxyReq.end;
+
+      requests.set(req, {
+        url: new URL(proxyReq.path, origin).href,
+        body,
+        startedAt: new Date(),
+      });
+    });
+
+    proxyServer.on('proxyRes', (proxyRes, req) => {
+      const request = requests.get(req);
+      const chunks: Buffer[] = [];
+
+      if (!request) {
+        return;
+      }
+
+      proxyRes.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+      proxyRes.on('end', async () => {
+        const requestBody = Buffer.concat(request.body);
+        const time = Date.now() - request.startedAt.getTime();
+        const { body, headers } = await decode(
+          Buffer.concat(chunks),
+          proxyRes.headers,
+        );
+
+        save({
+          method: req.method || 'GET',
+          path: req.url || '/',
+          bodyHash: hash(requestBody),
+          url: request.url,
+          requestHeaders: req.headers,
+          requestBody,
+          status: proxyRes.statusCode ?? 200,
+          statusText: proxyRes.statusMessage ?? '',
+          headers,
+          body,
+          startedAt: request.startedAt,
+          time,
+        });
+      });
+    });
+  };
+}
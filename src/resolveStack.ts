@@ -0,0 +1,97 @@
+import type { IncomingMessage } from 'node:http';
+import type { NextFunction } from 'connect-next';
+import { createCodeFrame } from './codeFrame.js';
+import type {
+  Request,
+  ResolvedStackFrame,
+  Response,
+  StackFrame,
+} from './types.js';
+
+const BODY_LIMIT = 1024 * 1024;
+
+export type StackFrameResolver = (
+  frame: StackFrame,
+) => Promise<(ResolvedStackFrame & { sourceContent?: string }) | null>;
+
+function readRequestBody(req: IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+
+      if (body.length > limit) {
+        reject(new Error('Request body is too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Maps the frames posted by the client to their original positions,
+ * with a code frame of the first frame in the user code
+ */
+export function getResolveStackMiddleware(
+  resolveFrame: StackFrameResolver,
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  return async (req, res, next) => {
+    if (req.method !== 'POST') {
+      next();
+      return;
+    }
+
+    let frames: StackFrame[];
+
+    try {
+      ({ frames } = JSON.parse(await readRequestBody(req, BODY_LIMIT)));
+    } catch {
+      res.statusCode = 400;
+      res.end();
+      return;
+    }
+
+    if (!Array.isArray(frames)) {
+      res.statusCode = 400;
+      res.end();
+      return;
+    }
+
+    const resolvedFrames = await Promise.all(
+      frames.map((frame) => resolveFrame(frame)),
+    );
+    // prefer the first frame of the user code for the code frame
+    const frameWithSource =
+      resolvedFrames.find(
+        (frame) =>
+          frame?.sourceContent && !frame.source.includes('node_modules'),
+      ) || resolvedFrames.find((frame) => frame?.sourceContent);
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(
+      JSON.stringify({
+        frames: resolvedFrames.map(
+          (frame): ResolvedStackFrame | null =>
+            frame && {
+              file: frame.file,
+              source: frame.source,
+              line: frame.line,
+              column: frame.column,
+              name: frame.name,
+            },
+        ),
+        codeFrame: frameWithSource
+          ? createCodeFrame(
+              frameWithSource.sourceContent as string,
+              frameWithSource.line,
+              frameWithSource.column,
+            )
+          : undefined,
+      }),
+    );
+  };
+}
@@ -8,19 +8,23 @@
  * https://github.com/webpack/webpack-dev-server/blob/main/LICENSE
  */
 
+import { X509Certificate, createHash } from 'node:crypto';
 import * as fs from 'node:fs';
+import * as http from 'node:http';
 import { createRequire } from 'node:module';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import * as readline from 'node:readline';
 import * as url from 'node:url';
 import * as util from 'node:util';
+import type { Duplex } from 'node:stream';
 import type {
+  Asset,
+  Compilation,
   DevServerClient,
   DevServerHeaders,
   DevServerHost,
   DevServerMiddlewareHandler,
-  DevServerProxyConfigArray,
-  DevServerProxyConfigArrayItem,
   DevServerStatic,
   DevServerStaticItem,
   DevServerWebSocketURL,
@@ -36,45 +40,95 @@ import type {
 import compression from 'http-compression';
 import ipaddr from 'ipaddr.js';
 import type { App } from 'open';
+import type { RawData } from 'ws';
 import type { IPv6 } from 'ipaddr.js';
+import { AccessLog } from './accessLog.js';
+import { getApiMiddleware } from './api.js';
+import {
+  getCertificateAuthority,
+  getCertificateAuthorityMiddleware,
+  getLocalCertificate,
+} from './certificate.js';
+import type { CertificateAuthority } from './certificate.js';
+import { createCodeFrame } from './codeFrame.js';
 import { getPort } from './getPort.js';
+import { MiddlewareList, describeMiddlewares } from './middlewareList.js';
+import { MockApi } from './mock.js';
+import { NetworkConditions, getNetworkMiddleware } from './network.js';
+import { PROTOCOL_VERSION } from './protocol.js';
+import { getProxyErrorPage } from './proxyErrorPage.js';
+import { getProxyTrafficPlugin } from './proxyTraffic.js';
+import { getResolveStackMiddleware } from './resolveStack.js';
+import type {
+  ServerMessageData,
+  ServerMessageParams,
+  ServerMessageType,
+} from './protocol.js';
+import { originalPositionFor } from './sourceMap.js';
+import type { RawSourceMap } from './sourceMap.js';
+import { SseServer } from './servers/SseServer.js';
 import { WebsocketServer } from './servers/WebsocketServer.js';
+import { getProgressMiddleware, getWaitingPage } from './waitingPage.js';
 import type {
+  AccessLogOptions,
   AddressInfo,
   BasicApplication,
   BasicServer,
+  ClientConfiguration,
   ClientConnection,
   Compiler,
+  CompilerAssets,
+  CompilerState,
+  CompilerStatus,
   ConnectHistoryApiFallbackOptions,
+  CustomMessageListener,
   DevMiddlewareContext,
-  DevMiddlewareOptions,
+  DevMiddlewareConfiguration,
   DevServer,
   EXPECTED_ANY,
+  ForwardConsoleLevel,
+  ForwardConsoleOptions,
   FSWatcher,
   HTTPServer,
   IncomingMessage,
+  ListenTarget,
   LiteralUnion,
   Middleware,
   MiddlewareObject,
+  MockOptions,
   MultiCompiler,
   MultiStats,
   NetworkInterfaceInfo,
+  NetworkOptions,
+  NetworkRule,
+  NormalizedAccessLog,
+  NormalizedListenTarget,
+  NormalizedMock,
+  NormalizedNetwork,
   NormalizedOpen,
   NormalizedStatic,
   Open,
+  OpenEditorOptions,
   OverlayMessageOptions,
   Port,
+  ProxyConfigArray,
+  ProxyConfigArrayItem,
   Request,
+  ResolvedStackFrame,
   Response,
   ServerConfiguration,
+  ServerEventListener,
+  ServerEvents,
   ServerOptions,
   ServerType,
   Socket,
+  StackFrame,
   Stats,
   StatsCompilation,
   StatsOptions,
   WatchFiles,
   WatchOptions,
+  WebSocketChannel,
   WebSocketServer,
   WebSocketServerConfiguration,
   WebSocketServerImplementation,
@@ -89,11 +143,14 @@ export interface Configuration<
   S extends BasicServer = HTTPServer,
 > {
   ipc?: boolean | string;
+  middlewareMode?: boolean;
   host?: DevServerHost;
   port?: Port;
+  /** listens on each target, instead of `host` and `port` or `ipc` */
+  listen?: ListenTarget[];
   hot?: boolean | 'only';
   liveReload?: boolean;
-  devMiddleware?: DevMiddlewareOptions<Request, Response>;
+  devMiddleware?: DevMiddlewareConfiguration;
   compress?: boolean;
   allowedHosts?: LiteralUnion<'auto' | 'all', string> | string[];
   historyApiFallback?: boolean | ConnectHistoryApiFallbackOptions;
@@ -103,10 +160,10 @@ export interface Configuration<
   app?: () => Promise<A>;
   webSocketServer?:
     boolean | LiteralUnion<'ws', string> | WebSocketServerConfiguration;
-  proxy?: DevServerProxyConfigArray;
+  proxy?: ProxyConfigArray;
   open?: boolean | string | Open | Array<string | Open>;
   setupExitSignals?: boolean;
-  client?: boolean | DevServerClient;
+  client?: boolean | ClientConfiguration;
   headers?:
     | DevServerHeaders
     | ((
@@ -114,13 +171,57 @@ export interface Configuration<
         res: Response,
         context: DevMiddlewareContext<Request, Response> | undefined,
       ) => DevServerHeaders);
+  shortcuts?: boolean | { custom?: Shortcut<A, S>[] };
+  openEditor?: OpenEditorOptions;
+  waitingPage?: boolean;
+  mock?: boolean | string | MockOptions;
+  network?: NetworkRule[] | NetworkOptions;
+  accessLog?: boolean | string | AccessLogOptions;
+  plugins?: DevServerPlugin<A, S>[];
   onListening?: (devServer: Server<A, S>) => void;
   setupMiddlewares?: (
-    middlewares: Middleware[],
+    middlewares: MiddlewareList,
     devServer: Server<A, S>,
   ) => Middleware[];
 }
 
+export interface Shortcut<
+  A extends BasicApplication = ConnectApplication,
+  S extends BasicServer = HTTPServer,
+> {
+  key: string;
+  description: string;
+  action: (devServer: Server<A, S>) => void | Promise<void>;
+}
+
+export interface DevServerPlugin<
+  A extends BasicApplication = ConnectApplication,
+  S extends BasicServer = HTTPServer,
+> {
+  name: string;
+  /** `pre` plugins are applied before the other plugins, `post` plugins after them */
+  enforce?: 'pre' | 'post';
+  /**
+   * Called before the built-in middlewares are set up,
+   * middlewares added to `devServer.app` here run before them
+   */
+  configureServer?: (devServer: Server<A, S>) => void | Promise<void>;
+  configureWebSocket?: (
+    webSocketServer: WebSocketServerImplementation,
+    devServer: Server<A, S>,
+  ) => void;
+  onCompileDone?: (
+    stats: Stats | MultiStats,
+    devServer: Server<A, S>,
+  ) => void | Promise<void>;
+  /** Transforms the HTML files of the bundle before they are served */
+  transformIndexHtml?: (
+    html: string,
+    context: { req: Request; filename: string; devServer: Server<A, S> },
+  ) => string | Promise<string>;
+  onStop?: (devServer: Server<A, S>) => void | Promise<void>;
+}
+
 // Define BasicApplication and Server as ambient, or import them
 
 if (!process.env.RSPACK_SERVE) {
@@ -143,6 +244,8 @@ const encodeOverlaySettings = (
 
 const DEFAULT_ALLOWED_PROTOCOLS = /^(file|.+-extension):/i;
 
+const PLUGIN_ENFORCE_ORDER = { pre: 0, normal: 1, post: 2 };
+
 /**
  * Extracts and normalizes the hostname from a header, removing brackets for IPv6.
  */
@@ -166,6 +269,96 @@ function parseHostnameFromHeader(header: string): string | null {
   }
 }
 
+// matches frames like ` 1 │ code` (rspack) or `> 1 | code` (babel)
+const CODE_FRAME_REGEXP = /^\s*[>·]?\s*\d+\s*[|│]/m;
+
+/**
+ * Get the resource path from a module identifier,
+ * e.g. `javascript/auto|/path/to/loader.js!/src/index.js?query` -> `/src/index.js`
+ */
+function getResourcePath(moduleIdentifier: string): string {
+  return moduleIdentifier
+    .slice(moduleIdentifier.lastIndexOf('!') + 1)
+    .replace(/^[\w/-]+\|/, '')
+    .replace(/\?.*$/, '');
+}
+
+// browsers send `Sec-Fetch-Mode`, other clients are recognized by the accepted types
+function isNavigationRequest(req: IncomingMessage): boolean {
+  const mode = req.headers['sec-fetch-mode'];
+
+  if (mode) {
+    return mode === 'navigate';
+  }
+
+  return (req.headers.accept || '').includes('text/html');
+}
+
+// conditional GET requests are answered with 304 when the client has the same response
+function isFreshResponse(
+  req: IncomingMessage,
+  res: http.ServerResponse,
+): boolean {
+  if (/(?:^|,)\s*no-cache\s*(?:,|$)/.test(req.headers['cache-control'] || '')) {
+    return false;
+  }
+
+  const ifNoneMatch = req.headers['if-none-match'];
+  const etag = res.getHeader('ETag');
+
+  if (ifNoneMatch) {
+    const normalize = (tag: string) => tag.trim().replace(/^W\//, '');
+
+    return (
+      typeof etag === 'string' &&
+      (ifNoneMatch.trim() === '*' ||
+        ifNoneMatch
+          .split(',')
+          .some((tag) => normalize(tag) === normalize(etag)))
+    );
+  }
+
+  const ifModifiedSince = req.headers['if-modified-since'];
+  const lastModified = res.getHeader('Last-Modified');
+
+  return (
+    typeof ifModifiedSince === 'string' &&
+    typeof lastModified === 'string' &&
+    Date.parse(lastModified) <= Date.parse(ifModifiedSince)
+  );
+}
+
+// paths of the TLS options, other strings are the PEM contents
+function getTlsFiles(value: unknown): string[] {
+  return (Array.isArray(value) ? value : [value]).filter((item) => {
+    if (typeof item !== 'string' || !item) {
+      return false;
+    }
+
+    try {
+      return fs.lstatSync(fs.realpathSync(item)).isFile();
+    } catch {
+      return false;
+    }
+  });
+}
+
+// reads the paths of a TLS option, buffers and objects are kept
+function readTlsOption(value: unknown): unknown {
+  const files = getTlsFiles(value);
+  const readItem = (item: unknown) =>
+    files.includes(item as string) ? fs.readFileSync(item as string) : item;
+
+  return Array.isArray(value)
+    ? value.map((item) => readItem(item) || undefined)
+    : readItem(value) || undefined;
+}
+
+type ProgressPayload = ServerMessageData<'progress-update'>;
+
+// the values of `host` which stand for an address of the machine
+const LOCAL_IP_HOSTS = new Set(['local-ip', 'local-ipv4', 'local-ipv6']);
+
 function isMultiCompiler(
   compiler: Compiler | MultiCompiler,
 ): compiler is MultiCompiler {
@@ -192,10 +385,48 @@ class Server<
   middleware:
     import('@rspack/dev-middleware').API<Request, Response> | undefined;
   server: S | undefined;
+  // one server per target of `listen`, the first one is `server`
+  servers: S[] = [];
   app: A | undefined;
   stats: Stats | MultiStats | undefined;
-
-  constructor(options: DevServer, compiler: Compiler | MultiCompiler) {
+  ws: WebSocketChannel;
+  #customMessageListeners = new Map<string, Set<CustomMessageListener>>();
+  #customShortcuts = new Map<string, Shortcut<A, S>>();
+  #eventListeners = new Map<
+    keyof ServerEvents,
+    Set<ServerEventListener<EXPECTED_ANY>>
+  >();
+  #shortcutsInterface: readline.Interface | undefined;
+  #compilerStates = new Map<Compiler, CompilerState>();
+  #compilerHashes = new Map<Compiler, string | undefined>();
+  // compilers which finished a compilation since the last `done` of the dev server compiler
+  #rebuiltCompilers = new Set<Compiler>();
+  // the stats are sent one after the other, the ones of a superseded build are dropped
+  #statsBroadcasts = Promise.resolve();
+  #statsGeneration = 0;
+  #doneListeners = new Set<() => void>();
+  #progress: ProgressPayload | undefined;
+  #progressListeners = new Set<(payload: ProgressPayload) => void>();
+  #mock: MockApi | undefined;
+  #network: NetworkConditions | undefined;
+  #accessLog: AccessLog | undefined;
+  // whether the certificate of the server is signed by the local CA
+  #usesLocalCertificate = false;
+  // TLS options set to paths, read again when the files change
+  #certificateSources = new Map<keyof ServerOptions, unknown>();
+  #sourceFileCache = new Map<
+    string,
+    { mtimeMs: number; size: number; source: string }
+  >();
+  #sourceMapCache = new Map<
+    string,
+    { sourceMap: RawSourceMap; context: string } | null
+  >();
+
+  constructor(
+    options: DevServer | Configuration<A, S>,
+    compiler: Compiler | MultiCompiler,
+  ) {
     this.compiler = compiler;
     this.logger = this.compiler.getInfrastructureLogger('rspack-dev-server');
     this.options = options as unknown as Configuration<A, S>;
@@ -205,6 +436,38 @@ class Server<
     this.sockets = [];
 
     this.currentHash = undefined;
+
+    this.ws = {
+      on: (event, listener) => {
+        let listeners = this.#customMessageListeners.get(event);
+
+        if (!listeners) {
+          listeners = new Set();
+          this.#customMessageListeners.set(event, listeners);
+        }
+
+        listeners.add(listener);
+      },
+      off: (event, listener) => {
+        const listeners = this.#customMessageListeners.get(event);
+
+        if (!listeners) {
+          return;
+        }
+
+        listeners.delete(listener);
+
+        if (listeners.size === 0) {
+          this.#customMessageListeners.delete(event);
+        }
+      },
+      send: (event, data, clients) => {
+        const targetClients =
+          clients ?? (this.webSocketServer ? this.webSocketServer.clients : []);
+
+        this.sendMessage(targetClients, 'custom', { event, data });
+      },
+    };
   }
 
   static get DEFAULT_STATS(): StatsOptions {
@@ -339,6 +602,51 @@ class Server<
     });
   }
 
+  /**
+   * The local CA which signs the certificates generated for `https` and `http2` servers,
+   * created on the first use, e.g. to trust it in the browsers of end-to-end tests
+   */
+  static async getCertificateAuthority(): Promise<CertificateAuthority> {
+    const { cert, certPath } = await getCertificateAuthority(
+      Server.findCertificateAuthorityDir(),
+    );
+
+    return { cert, certPath };
+  }
+
+  /**
+   * The directory of the local CA, shared by the projects of the current user,
+   * `RSPACK_DEV_SERVER_CAROOT` overrides it
+   */
+  static findCertificateAuthorityDir(): string {
+    if (process.env.RSPACK_DEV_SERVER_CAROOT) {
+      return path.resolve(process.env.RSPACK_DEV_SERVER_CAROOT);
+    }
+
+    const home = os.homedir();
+
+    if (process.platform === 'win32') {
+      return path.join(
+        process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local'),
+        'rspack-dev-server',
+      );
+    }
+
+    if (process.platform === 'darwin') {
+      return path.join(
+        home,
+        'Library',
+        'Application Support',
+        'rspack-dev-server',
+      );
+    }
+
+    return path.join(
+      process.env.XDG_DATA_HOME || path.join(home, '.local', 'share'),
+      'rspack-dev-server',
+    );
+  }
+
   static findCacheDir(): string {
     const cwd = process.cwd();
 
@@ -395,6 +703,14 @@ class Server<
         // We are proxying dev server and need to specify custom `hostname`
         if (typeof webSocketURL.protocol !== 'undefined') {
           protocol = webSocketURL.protocol;
+        }
+        // The host server decides the protocol, let the client follow the page
+        else if (
+          this.options.middlewareMode ||
+          (this.options.server as ServerConfiguration<A, S>).options
+            ?.plainHttp === 'serve'
+        ) {
+          protocol = 'auto:';
         } else {
           protocol = this.isTlsServer ? 'wss:' : 'ws:';
         }
@@ -476,7 +792,11 @@ class Server<
 
         searchParams.set('pathname', pathname);
 
-        const client = this.options.client as DevServerClient;
+        if (isMultiCompiler(this.compiler)) {
+          searchParams.set('compiler', this.#getCompilerId(compiler));
+        }
+
+        const client = this.options.client as ClientConfiguration;
 
         if (typeof client.logging !== 'undefined') {
           searchParams.set('logging', client.logging);
@@ -502,6 +822,13 @@ class Server<
           searchParams.set('overlay', overlayString);
         }
 
+        if (client.forwardConsole) {
+          searchParams.set(
+            'forward-console',
+            JSON.stringify(client.forwardConsole),
+          );
+        }
+
         if (typeof client.reconnect !== 'undefined') {
           searchParams.set(
             'reconnect',
@@ -758,6 +1085,16 @@ class Server<
         options.client.reconnect = 0;
       }
 
+      if (options.client.forwardConsole) {
+        options.client.forwardConsole = {
+          levels: ['error', 'warn'],
+          unhandledErrors: true,
+          ...(options.client.forwardConsole === true
+            ? {}
+            : options.client.forwardConsole),
+        };
+      }
+
       // Respect infrastructureLogging.level
       if (typeof options.client.logging === 'undefined') {
         options.client.logging = compilerOptions.infrastructureLogging
@@ -809,7 +1146,9 @@ class Server<
       };
     }
 
-    const serverOptions = options.server.options as ServerOptions;
+    const serverOptions = options.server.options as NonNullable<
+      ServerConfiguration<A, S>['options']
+    >;
 
     if (options.server.type === 'https' || options.server.type === 'http2') {
       if (typeof serverOptions.requestCert === 'undefined') {
@@ -831,170 +1170,49 @@ class Server<
         }
 
         const value = serverOptions[property];
-        const readFile = (
-          item: string | Buffer | undefined,
-        ): string | Buffer | undefined => {
-          if (
-            Buffer.isBuffer(item) ||
-            (typeof item === 'object' && item !== null && !Array.isArray(item))
-          ) {
-            return item;
-          }
-
-          if (item) {
-            let stats = null;
-
-            try {
-              stats = fs.lstatSync(fs.realpathSync(item)).isFile();
-            } catch {
-              // Ignore error
-            }
 
-            // It is a file
-            return stats ? fs.readFileSync(item) : item;
-          }
-        };
+        if (getTlsFiles(value).length > 0) {
+          this.#certificateSources.set(property, value);
+        }
 
-        serverOptions[property] = (
-          Array.isArray(value)
-            ? value.map((item) => readFile(item as string))
-            : readFile(value as string)
-        ) as EXPECTED_ANY;
+        serverOptions[property] = readTlsOption(value) as EXPECTED_ANY;
       }
 
       let fakeCert: Buffer | undefined;
 
-      if (!serverOptions.key || !serverOptions.cert) {
-        const certificateDir = Server.findCacheDir();
-        const certificatePath = path.join(certificateDir, 'server.pem');
-        let certificateExists: boolean;
-
-        try {
-          const certificate = await fs.promises.stat(certificatePath);
-          certificateExists = certificate.isFile();
-        } catch {
-          certificateExists = false;
-        }
-
-        if (certificateExists) {
-          const certificateTtl = 1000 * 60 * 60 * 24;
-          const certificateStat = await fs.promises.stat(certificatePath);
-          const now = Number(new Date());
-
-          // cert is more than 30 days old, kill it with fire
-          if ((now - Number(certificateStat.ctime)) / certificateTtl > 30) {
-            this.logger.info(
-              'SSL certificate is more than 30 days old. Removing...',
-            );
-
-            await fs.promises.rm(certificatePath, { recursive: true });
-
-            certificateExists = false;
-          }
-        }
-
-        if (!certificateExists) {
-          this.logger.info('Generating SSL certificate...');
-
-          let selfsigned: typeof import('selfsigned');
-
-          try {
-            selfsigned = require('selfsigned');
-          } catch (error) {
-            if (
-              error instanceof Error &&
-              (error as NodeJS.ErrnoException).code === 'MODULE_NOT_FOUND'
-            ) {
-              throw new Error(
-                'Cannot generate a self-signed certificate because optional peer dependency `selfsigned@^5.0.0` is not installed. Please install it and try again.',
-                { cause: error },
-              );
-            }
-
-            throw error;
-          }
-
-          const attributes = [{ name: 'commonName', value: 'localhost' }];
-          const notBeforeDate = new Date();
-          const notAfterDate = new Date(notBeforeDate);
-
-          notAfterDate.setDate(notAfterDate.getDate() + 30);
-
-          const pems = await selfsigned.generate(attributes, {
-            algorithm: 'sha256',
-            keySize: 2048,
-            notBeforeDate,
-            notAfterDate,
-            extensions: [
-              {
-                name: 'basicConstraints',
-                cA: true,
-              },
-              {
-                name: 'keyUsage',
-                keyCertSign: true,
-                digitalSignature: true,
-                nonRepudiation: true,
-                keyEncipherment: true,
-                dataEncipherment: true,
-              },
-              {
-                name: 'extKeyUsage',
-                serverAuth: true,
-                clientAuth: true,
-                codeSigning: true,
-                timeStamping: true,
-              },
-              {
-                name: 'subjectAltName',
-                altNames: [
-                  {
-                    // type 2 is DNS
-                    type: 2,
-                    value: 'localhost',
-                  },
-                  {
-                    type: 2,
-                    value: 'localhost.localdomain',
-                  },
-                  {
-                    type: 2,
-                    value: 'lvh.me',
-                  },
-                  {
-                    type: 2,
-                    value: '*.lvh.me',
-                  },
-                  {
-                    type: 2,
-                    value: '[::1]',
-                  },
-                  {
-                    // type 7 is IP
-                    type: 7,
-                    ip: '127.0.0.1',
-                  },
-                  {
-                    type: 7,
-                    ip: 'fe80::1',
-                  },
-                ],
-              },
-            ],
-          });
+      const { altNames = [] } = serverOptions;
 
-          await fs.promises.mkdir(certificateDir, { recursive: true });
+      // not an option of the TLS servers
+      delete serverOptions.altNames;
 
-          await fs.promises.writeFile(
-            certificatePath,
-            pems.private + pems.cert,
-            {
-              encoding: 'utf8',
-            },
-          );
-        }
+      if (!serverOptions.key || !serverOptions.cert) {
+        const listenHosts = (options.listen ?? [{ host: options.host }])
+          .map((target) => ('ipc' in target ? undefined : target.host))
+          .filter((host): host is string => typeof host === 'string');
+        // the addresses printed by `#logStatus`, to open the pages from other devices
+        const detectedHosts = await Promise.all([
+          Server.findIp('v4', false),
+          Server.findIp('v6', false),
+          // e.g. `local-ip`
+          ...listenHosts
+            .filter((host) => LOCAL_IP_HOSTS.has(host))
+            .map((host) => Server.getHostname(host)),
+        ]);
+        const certificatePath = await getLocalCertificate(
+          Server.findCacheDir(),
+          Server.findCertificateAuthorityDir(),
+          this.logger,
+          detectedHosts.filter(
+            (host): host is string => typeof host === 'string',
+          ),
+          [
+            ...listenHosts.filter((host) => !LOCAL_IP_HOSTS.has(host)),
+            ...altNames,
+          ],
+        );
 
         fakeCert = await fs.promises.readFile(certificatePath);
+        this.#usesLocalCertificate = true;
 
         this.logger.info(`SSL certificate: ${certificatePath}`);
       }
@@ -1003,12 +1221,36 @@ class Server<
       serverOptions.cert = serverOptions.cert || fakeCert;
     }
 
-    if (typeof options.ipc === 'boolean') {
+    const getDefaultIpc = () => {
       const isWindows = process.platform === 'win32';
       const pipePrefix = isWindows ? '\\\\.\\pipe\\' : os.tmpdir();
       const pipeName = 'rspack-dev-server.sock';
 
-      options.ipc = path.join(pipePrefix, pipeName);
+      return path.join(pipePrefix, pipeName);
+    };
+
+    if (typeof options.ipc === 'boolean') {
+      options.ipc = getDefaultIpc();
+    }
+
+    if (options.listen) {
+      const ignored = (['host', 'port', 'ipc'] as const).filter(
+        (name) => typeof options[name] !== 'undefined',
+      );
+
+      if (ignored.length > 0) {
+        this.logger.warn(
+          `The ${new Intl.ListFormat('en').format(ignored.map((name) => `"${name}"`))} ${ignored.length > 1 ? 'options are' : 'option is'} ignored when "listen" is set.`,
+        );
+      }
+
+      const listen: NormalizedListenTarget[] = options.listen.map((target) =>
+        'ipc' in target
+          ? { ipc: target.ipc === true ? getDefaultIpc() : target.ipc }
+          : { host: target.host, port: target.port },
+      );
+
+      options.listen = listen;
     }
 
     options.liveReload =
@@ -1085,10 +1327,40 @@ class Server<
       options.port = Number(options.port);
     }
 
+    if (typeof options.middlewareMode === 'undefined') {
+      options.middlewareMode = false;
+    }
+
+    // The host application owns the process in middleware mode
     if (typeof options.setupExitSignals === 'undefined') {
-      options.setupExitSignals = true;
+      options.setupExitSignals = !options.middlewareMode;
+    }
+
+    // Shortcuts need an interactive terminal, the host application owns it in middleware mode
+    if (typeof options.shortcuts === 'undefined') {
+      options.shortcuts = !options.middlewareMode;
     }
 
+    if (typeof options.shortcuts === 'object') {
+      for (const shortcut of options.shortcuts.custom ?? []) {
+        this.registerShortcut(shortcut);
+      }
+    }
+
+    // stable, so plugins keep their order within each group
+    options.plugins = [...(options.plugins ?? [])].sort(
+      (a, b) =>
+        PLUGIN_ENFORCE_ORDER[a.enforce ?? 'normal'] -
+        PLUGIN_ENFORCE_ORDER[b.enforce ?? 'normal'],
+    );
+
+    options.openEditor = {
+      ...options.openEditor,
+      allowedRoots: (options.openEditor?.allowedRoots ?? []).map((root) =>
+        path.resolve(root),
+      ),
+    };
+
     if (typeof options.static === 'undefined') {
       options.static = [getStaticItem()];
     } else if (typeof options.static === 'boolean') {
@@ -1131,6 +1403,55 @@ class Server<
       options.watchFiles = [];
     }
 
+    if (options.mock) {
+      const mockOptions: MockOptions =
+        typeof options.mock === 'object'
+          ? options.mock
+          : typeof options.mock === 'string'
+            ? { directory: options.mock }
+            : {};
+      const mock: NormalizedMock = {
+        directory: path.resolve(
+          mockOptions.directory ?? path.join(process.cwd(), 'mock'),
+        ),
+        delay: mockOptions.delay ?? 0,
+        watch: getWatchOptions(),
+      };
+
+      options.mock = mock;
+    } else {
+      options.mock = false;
+    }
+
+    if (options.accessLog) {
+      const accessLogOptions: AccessLogOptions =
+        typeof options.accessLog === 'object'
+          ? options.accessLog
+          : typeof options.accessLog === 'string'
+            ? { file: options.accessLog }
+            : {};
+      const accessLog: NormalizedAccessLog = {
+        file: accessLogOptions.file && path.resolve(accessLogOptions.file),
+      };
+
+      options.accessLog = accessLog;
+    } else {
+      options.accessLog = false;
+    }
+
+    if (options.network) {
+      const networkOptions: NetworkOptions = Array.isArray(options.network)
+        ? { rules: options.network }
+        : options.network;
+      const network: NormalizedNetwork = {
+        enabled: networkOptions.enabled ?? true,
+        // copied, toggling the rules at runtime does not change the configuration
+        rules: networkOptions.rules.map((rule) => ({ ...rule })),
+      };
+
+      options.network = network;
+    }
+
     const defaultWebSocketServerType = 'ws';
     const defaultWebSocketServerOptions = { path: '/ws' };
 
@@ -1186,11 +1507,15 @@ class Server<
       this.options.client !== null &&
       typeof this.options.client.webSocketTransport !== 'undefined'
         ? this.options.client.webSocketTransport
-        : 'ws';
+        : // the client follows the built-in server transport by default
+          (this.options.webSocketServer as WebSocketServerConfiguration)
+              ?.type === 'sse'
+          ? 'sse'
+          : 'ws';
 
     switch (typeof clientTransport) {
       case 'string':
-        // could be 'ws' or a path that should be required
+        // could be 'ws', 'sse' or a path that should be required
         if (clientTransport === 'sockjs') {
           throw new Error(
             "SockJS support has been removed. Please set client.webSocketTransport to 'ws' or provide a custom transport implementation path.",
@@ -1200,6 +1525,8 @@ class Server<
         if (clientTransport === 'ws') {
           clientImplementation =
             require.resolve('../client/clients/WebSocketClient');
+        } else if (clientTransport === 'sse') {
+          clientImplementation = require.resolve('../client/clients/SseClient');
         } else {
           try {
             clientImplementation = require.resolve(clientTransport);
@@ -1214,7 +1541,7 @@ class Server<
 
     if (!clientImplementationFound) {
       throw new Error(
-        `client.webSocketTransport must be a string denoting a default implementation (e.g. 'ws') or a full path to a JS file via require.resolve(...) which exports a class `,
+        `client.webSocketTransport must be a string denoting a default implementation (e.g. 'ws' or 'sse') or a full path to a JS file via require.resolve(...) which exports a class `,
       );
     }
 
@@ -1229,7 +1556,7 @@ class Server<
       typeof (this.options.webSocketServer as WebSocketServerConfiguration).type
     ) {
       case 'string':
-        // Could be 'ws' or a path that should be required
+        // Could be 'ws', 'sse' or a path that should be required
         if (
           (this.options.webSocketServer as WebSocketServerConfiguration)
             .type === 'sockjs'
@@ -1244,6 +1571,11 @@ class Server<
             .type === 'ws'
         ) {
           implementation = WebsocketServer;
+        } else if (
+          (this.options.webSocketServer as WebSocketServerConfiguration)
+            .type === 'sse'
+        ) {
+          implementation = SseServer;
         } else {
           try {
             implementation = require(
@@ -1266,7 +1598,7 @@ class Server<
 
     if (!implementationFound) {
       throw new Error(
-        "webSocketServer (webSocketServer.type) must be a string denoting a default implementation (e.g. 'ws'), a full path to " +
+        "webSocketServer (webSocketServer.type) must be a string denoting a default implementation (e.g. 'ws' or 'sse'), a full path to " +
           'a JS file which exports a class extending BaseServer (webpack-dev-server/lib/servers/BaseServer.js) ' +
           'via require.resolve(...), or the class itself which extends BaseServer',
       );
@@ -1306,7 +1638,16 @@ class Server<
         msg: msgValue,
       };
 
-      if (this.webSocketServer) {
+      this.#progress = payload;
+
+      for (const listener of this.#progressListeners) {
+        listener(payload);
+      }
+
+      if (
+        this.webSocketServer &&
+        (this.options.client as DevServerClient).progress
+      ) {
         this.sendMessage(
           this.webSocketServer.clients,
           'progress-update',
@@ -1350,7 +1691,11 @@ class Server<
     this.#setupHooks();
 
     await this.#setupApp();
-    await this.#createServer();
+
+    if (!this.options.middlewareMode) {
+      await this.#createServer();
+      await this.#watchCertificates();
+    }
 
     if (this.options.webSocketServer) {
       const compilers =
@@ -1389,17 +1734,35 @@ class Server<
           }
         }
       }
+    }
 
-      if (
+    if (
+      (this.options.webSocketServer &&
         this.options.client &&
-        (this.options.client as DevServerClient).progress
-      ) {
-        this.#setupProgressPlugin();
-      }
+        (this.options.client as DevServerClient).progress) ||
+      this.options.waitingPage
+    ) {
+      this.#setupProgressPlugin();
     }
 
     await this.#setupWatchFiles();
     await this.#setupWatchStaticFiles();
+    await this.#setupMock();
+
+    if (this.options.accessLog) {
+      this.#accessLog = new AccessLog(
+        this.options.accessLog as NormalizedAccessLog,
+        this.logger,
+      );
+
+      // placed before the middlewares of the plugins, so their requests are timed as well
+      (this.app as A).use(this.#accessLog.middleware as NextHandleFunction);
+    }
+
+    for (const plugin of this.options.plugins as DevServerPlugin<A, S>[]) {
+      await plugin.configureServer?.(this);
+    }
+
     await this.#setupMiddlewares();
 
     if (this.options.setupExitSignals) {
@@ -1421,17 +1784,7 @@ class Server<
 
           needForceShutdown = true;
 
-          this.stopCallback(() => {
-            if (typeof this.compiler.close === 'function') {
-              this.compiler.close(() => {
-                // eslint-disable-next-line n/no-process-exit
-                process.exit();
-              });
-            } else {
-              // eslint-disable-next-line n/no-process-exit
-              process.exit();
-            }
-          });
+          this.#stopAndExit();
         };
 
         this.listeners.push({ name: signal, listener });
@@ -1440,6 +1793,11 @@ class Server<
       }
     }
 
+    // In middleware mode the host server forwards upgrades through `handleUpgrade`
+    if (this.options.middlewareMode) {
+      return;
+    }
+
     // Proxy WebSocket without the initial http request
     // https://github.com/chimurai/http-proxy-middleware#external-websocket-upgrade
     const webSocketProxies = this.webSocketProxies as NextHandleFunction[];
@@ -1464,7 +1822,7 @@ class Server<
     ) as A;
   }
 
-  #getStats(statsObj: Stats | MultiStats): StatsCompilation {
+  async #getStats(statsObj: Stats | MultiStats): Promise<StatsCompilation> {
     const stats = Server.DEFAULT_STATS;
     const compilerOptions = this.#getCompilerOptions();
 
@@ -1478,40 +1836,589 @@ class Server<
       ).warningsFilter;
     }
 
-    return statsObj.toJson(stats);
+    const json = statsObj.toJson(stats);
+
+    await Promise.all([
+      this.#addCodeFrames(json.errors),
+      this.#addCodeFrames(json.warnings),
+    ]);
+
+    return json;
   }
 
-  #setupHooks(): void {
-    this.compiler.hooks.invalid.tap('rspack-dev-server', () => {
-      if (this.webSocketServer) {
-        this.sendMessage(this.webSocketServer.clients, 'invalid');
-      }
-    });
-    this.compiler.hooks.done.tap(
-      'rspack-dev-server',
-      (stats: Stats | MultiStats): void => {
-        if (this.webSocketServer) {
-          this.#sendStats(this.webSocketServer.clients, this.#getStats(stats));
+  // Add an original source code frame to the problems which point at
+  // a location of a module but don't include a frame in the message
+  async #addCodeFrames(problems: StatsCompilation['errors']): Promise<void> {
+    if (!problems) {
+      return;
+    }
+
+    await Promise.all(
+      problems.map(async (problem) => {
+        if (
+          !problem.loc ||
+          !problem.moduleIdentifier ||
+          CODE_FRAME_REGEXP.test(problem.message)
+        ) {
+          return;
         }
-        this.stats = stats;
-      },
+
+        const position = /^(\d+):(\d+)/.exec(problem.loc);
+
+        if (!position) {
+          return;
+        }
+
+        const source = await this.#readSourceFile(
+          getResourcePath(problem.moduleIdentifier),
+        );
+
+        if (typeof source === 'undefined') {
+          return;
+        }
+
+        const codeFrame = createCodeFrame(
+          source,
+          Number(position[1]),
+          Number(position[2]),
+        );
+
+        if (codeFrame) {
+          (problem as typeof problem & { codeFrame?: string }).codeFrame =
+            codeFrame;
+        }
+      }),
     );
   }
 
-  async #setupWatchStaticFiles(): Promise<void> {
-    const watchFiles = this.options.static as NormalizedStatic[];
+  // The sources of the code frames are read again once they are modified
+  async #readSourceFile(file: string): Promise<string | undefined> {
+    try {
+      const { mtimeMs, size } = await fs.promises.stat(file);
+      const cached = this.#sourceFileCache.get(file);
 
-    if (watchFiles.length > 0) {
-      for (const item of watchFiles) {
-        if (item.watch) {
-          await this.watchFiles(item.directory, item.watch as WatchOptions);
-        }
+      if (cached?.mtimeMs === mtimeMs && cached.size === size) {
+        return cached.source;
       }
+
+      const source = await fs.promises.readFile(file, 'utf8');
+
+      this.#sourceFileCache.set(file, { mtimeMs, size, source });
+
+      return source;
+    } catch {
+      this.#sourceFileCache.delete(file);
+
+      return undefined;
     }
   }
 
-  async #setupWatchFiles(): Promise<void> {
-    const watchFiles = this.options.watchFiles as WatchFiles[];
+  // Resolve the file to open in the editor, only files inside
+  // of the compiler context or `openEditor.allowedRoots` are allowed
+  #resolveEditorFile(fileName: string): string | undefined {
+    const contexts = isMultiCompiler(this.compiler)
+      ? this.compiler.compilers.map((compiler) => compiler.options.context)
+      : [this.compiler.options.context];
+    const roots = [
+      ...contexts,
+      ...(this.options.openEditor?.allowedRoots ?? []),
+    ].filter((root): root is string => typeof root === 'string');
+    let file = path.resolve(
+      contexts[0] || process.cwd(),
+      getResourcePath(fileName),
+    );
+
+    // follow symlinks to not escape from the allowed roots
+    try {
+      file = fs.realpathSync(file);
+    } catch {
+      return;
+    }
+
+    const isAllowed = roots.some((root) => {
+      let realRoot = root;
+
+      try {
+        realRoot = fs.realpathSync(root);
+      } catch {
+        // use the root as is
+      }
+
+      const relative = path.relative(realRoot, file);
+
+      return (
+        relative !== '..' &&
+        !relative.startsWith(`..${path.sep}`) &&
+        !path.isAbsolute(relative)
+      );
+    });
+
+    return isAllowed ? file : undefined;
+  }
+
+  #getSourceMap(
+    fileURL: string,
+  ): { sourceMap: RawSourceMap; context: string } | null {
+    if (!this.stats) {
+      return null;
+    }
+
+    let pathname: string;
+
+    try {
+      pathname = decodeURIComponent(
+        new URL(fileURL, 'http://localhost').pathname,
+      );
+    } catch {
+      return null;
+    }
+
+    if (this.#sourceMapCache.has(pathname)) {
+      return this.#sourceMapCache.get(pathname) ?? null;
+    }
+
+    const compilations =
+      typeof (this.stats as MultiStats).stats !== 'undefined'
+        ? (this.stats as MultiStats).stats.map((stats) => stats.compilation)
+        : [(this.stats as Stats).compilation];
+    let result: { sourceMap: RawSourceMap; context: string } | null = null;
+    let match:
+      | { compilation: Compilation; asset: Readonly<Asset>; isExact: boolean }
+      | undefined;
+
+    // assets with the same name, e.g. `main.js` and `admin/main.js`, or the `main.js`
+    // of two compilers, are told apart by the public path, then by the longest name
+    for (const compilation of compilations) {
+      const { publicPath } = compilation.outputOptions;
+      const base =
+        typeof publicPath === 'string' && publicPath !== 'auto'
+          ? new URL(publicPath, 'http://localhost').pathname
+          : undefined;
+
+      for (const asset of compilation.getAssets()) {
+        const isExact =
+          typeof base !== 'undefined' &&
+          pathname === path.posix.join(base, asset.name);
+
+        if (!isExact && !pathname.endsWith(`/${asset.name}`)) {
+          continue;
+        }
+
+        if (
+          !match ||
+          (isExact && !match.isExact) ||
+          (isExact === match.isExact &&
+            asset.name.length > match.asset.name.length)
+        ) {
+          match = { compilation, asset, isExact };
+        }
+      }
+    }
+
+    if (match) {
+      const { compilation, asset } = match;
+      const content = asset.source.source().toString();
+      const sourceMappingURL = /\/\/[#@] sourceMappingURL=(\S+)\s*$/.exec(
+        content,
+      )?.[1];
+      let rawSourceMap: string | undefined;
+
+      if (sourceMappingURL?.startsWith('data:')) {
+        rawSourceMap = Buffer.from(
+          sourceMappingURL.slice(sourceMappingURL.indexOf(',') + 1),
+          'base64',
+        ).toString();
+      } else {
+        const sourceMapName = sourceMappingURL
+          ? path.posix.join(
+              path.posix.dirname(asset.name),
+              decodeURIComponent(sourceMappingURL.replace(/[?#].*$/, '')),
+            )
+          : `${asset.name}.map`;
+
+        rawSourceMap = compilation
+          .getAsset(sourceMapName)
+          ?.source.source()
+          .toString();
+      }
+
+      if (rawSourceMap) {
+        try {
+          result = {
+            sourceMap: JSON.parse(rawSourceMap),
+            context: compilation.options.context || process.cwd(),
+          };
+        } catch (error) {
+          this.logger.warn(
+            `Failed to parse the source map of "${asset.name}": ${(error as Error).message}`,
+          );
+        }
+      }
+    }
+
+    this.#sourceMapCache.set(pathname, result);
+
+    return result;
+  }
+
+  async #resolveStackFrame(
+    frame: StackFrame,
+  ): Promise<(ResolvedStackFrame & { sourceContent?: string }) | null> {
+    if (
+      typeof frame?.file !== 'string' ||
+      typeof frame.line !== 'number' ||
+      typeof frame.column !== 'number'
+    ) {
+      return null;
+    }
+
+    const { sourceMap, context } = this.#getSourceMap(frame.file) || {};
+
+    if (!sourceMap || !context) {
+      return null;
+    }
+
+    let position: ReturnType<typeof originalPositionFor>;
+
+    try {
+      position = originalPositionFor(sourceMap, frame.line, frame.column);
+    } catch {
+      return null;
+    }
+
+    if (!position) {
+      return null;
+    }
+
+    // `webpack:///./src/index.js?query` -> `./src/index.js`
+    const source = position.source
+      .replace(/^webpack:\/\/[^/]*\//, '')
+      .replace(/\?.*$/, '');
+    let file: string | undefined;
+
+    if (path.isAbsolute(source)) {
+      file = source;
+    } else if (source.startsWith('.')) {
+      file = path.resolve(context, source);
+    }
+
+    let { sourceContent } = position;
+
+    // the frame is shown without code when the file can't be read
+    if (!sourceContent && file) {
+      sourceContent = await this.#readSourceFile(file);
+    }
+
+    return {
+      file,
+      source,
+      line: position.line,
+      column: position.column,
+      name: position.name || frame.name,
+      sourceContent,
+    };
+  }
+
+  #setupHooks(): void {
+    for (const compiler of this.#getCompilers()) {
+      // the first compilation starts together with the dev server
+      this.#compilerStates.set(compiler, 'compiling');
+
+      const setCompiling = () => {
+        this.#compilerStates.set(compiler, 'compiling');
+      };
+
+      compiler.hooks.invalid.tap('rspack-dev-server', () => {
+        // the clients of all compilers are only told by the first invalidated compiler
+        const isRebuilding = this.#getCompilers().some(
+          (other) =>
+            other !== compiler &&
+            this.#compilerStates.get(other) === 'compiling',
+        );
+
+        setCompiling();
+        this.#statsGeneration++;
+
+        if (this.webSocketServer) {
+          this.sendMessage(
+            this.webSocketServer.clients.filter((client) => {
+              const clientCompiler = this.#getClientCompiler(client);
+
+              return clientCompiler
+                ? clientCompiler === compiler
+                : !isRebuilding;
+            }),
+            'invalid',
+          );
+        }
+      });
+      compiler.hooks.watchRun.tap('rspack-dev-server', () => {
+        setCompiling();
+        this.#emit('compile:start', { name: compiler.name });
+      });
+      // the `done` of the multi compiler is called from the `done` of the last compiler,
+      // so the compiler has to be marked as done before
+      compiler.hooks.done.tap(
+        { name: 'rspack-dev-server', stage: -100 },
+        (stats) => {
+          this.#compilerStates.set(
+            compiler,
+            stats.hasErrors() ? 'errored' : 'idle',
+          );
+          this.#rebuiltCompilers.add(compiler);
+        },
+      );
+      compiler.hooks.failed.tap('rspack-dev-server', () => {
+        this.#compilerStates.set(compiler, 'errored');
+      });
+
+      if (this.options.devMiddleware?.serveLastSuccessfulBuild) {
+        this.#keepLastSuccessfulBuild(compiler);
+      }
+    }
+
+    this.compiler.hooks.done.tap(
+      'rspack-dev-server',
+      (stats: Stats | MultiStats): void => {
+        this.#statsGeneration++;
+
+        if (this.webSocketServer) {
+          this.#broadcastStats(this.webSocketServer.clients, stats);
+        }
+        this.#rebuiltCompilers.clear();
+        this.stats = stats;
+        this.#sourceMapCache.clear();
+
+        if (this.#eventListeners.has('compile:done')) {
+          const compilers = this.#getCompilerStatuses();
+
+          this.#emit('compile:done', {
+            stats,
+            hash: stats.hash ?? undefined,
+            errors: compilers.reduce((sum, item) => sum + item.errors, 0),
+            warnings: compilers.reduce((sum, item) => sum + item.warnings, 0),
+            compilers,
+          });
+        }
+
+        for (const plugin of this.options.plugins as DevServerPlugin<A, S>[]) {
+          if (!plugin.onCompileDone) {
+            continue;
+          }
+
+          Promise.resolve()
+            .then(() => plugin.onCompileDone!(stats, this))
+            .catch((error) => {
+              this.#logPluginError(plugin, 'onCompileDone', error);
+            });
+        }
+
+        const doneListeners = [...this.#doneListeners];
+
+        this.#doneListeners.clear();
+
+        for (const listener of doneListeners) {
+          listener();
+        }
+      },
+    );
+  }
+
+  // Writes the assets of the last build without errors back over the ones emitted by a
+  // failing build, the errors are still sent to the clients and shown in the overlay
+  #keepLastSuccessfulBuild(compiler: Compiler): void {
+    // contents of the current assets as of the last successful build, by output path
+    const lastSuccessfulAssets = new Map<string, Buffer>();
+    const restoredAssets = new Set<string>();
+    let emittedAssets: string[] = [];
+
+    const writeAsset = (targetPath: string, content: Buffer) =>
+      new Promise<void>((resolve, reject) => {
+        compiler.outputFileSystem!.writeFile(targetPath, content, (error) =>
+          error ? reject(error) : resolve(),
+        );
+      });
+
+    compiler.hooks.assetEmitted.tap(
+      'rspack-dev-server',
+      (_file, { content, targetPath, compilation }) => {
+        emittedAssets.push(targetPath);
+
+        if (compilation.errors.length === 0) {
+          lastSuccessfulAssets.set(targetPath, content);
+        }
+      },
+    );
+
+    compiler.hooks.afterEmit.tapPromise(
+      'rspack-dev-server',
+      async (compilation) => {
+        const emitted = new Set(emittedAssets);
+
+        emittedAssets = [];
+
+        if (compilation.errors.length > 0) {
+          const restored = [...emitted].filter((targetPath) =>
+            lastSuccessfulAssets.has(targetPath),
+          );
+
+          if (restored.length === 0) {
+            return;
+          }
+
+          await Promise.all(
+            restored.map((targetPath) => {
+              restoredAssets.add(targetPath);
+
+              return writeAsset(
+                targetPath,
+                lastSuccessfulAssets.get(targetPath)!,
+              );
+            }),
+          );
+
+          this.logger.info(
+            `Serving the last successful build${compiler.name ? ` of "${compiler.name}"` : ''} until the errors are fixed.`,
+          );
+
+          return;
+        }
+
+        const outputPath = compilation.getPath(
+          compilation.outputOptions.path || '',
+        );
+        const assets = new Map(
+          compilation
+            .getAssets()
+            .map((asset) => [path.join(outputPath, asset.name), asset]),
+        );
+
+        // assets unchanged since the failing build are not emitted again
+        await Promise.all(
+          [...restoredAssets]
+            .filter(
+              (targetPath) =>
+                !emitted.has(targetPath) && assets.has(targetPath),
+            )
+            .map((targetPath) => {
+              const content = assets.get(targetPath)!.source.buffer();
+
+              lastSuccessfulAssets.set(targetPath, content);
+
+              return writeAsset(targetPath, content);
+            }),
+        );
+
+        restoredAssets.clear();
+
+        for (const targetPath of lastSuccessfulAssets.keys()) {
+          if (!assets.has(targetPath)) {
+            lastSuccessfulAssets.delete(targetPath);
+          }
+        }
+      },
+    );
+  }
+
+  #getCompilers(): Compiler[] {
+    return isMultiCompiler(this.compiler)
+      ? this.compiler.compilers
+      : [this.compiler];
+  }
+
+  #getCompilerId(compiler: Compiler): string {
+    return compiler.name ?? String(this.#getCompilers().indexOf(compiler));
+  }
+
+  // The compiler declared by a client, clients without one belong to all compilers
+  #getClientCompiler(client: ClientConnection): Compiler | undefined {
+    if (typeof client.compiler === 'undefined') {
+      return undefined;
+    }
+
+    return this.#getCompilers().find(
+      (compiler) => this.#getCompilerId(compiler) === client.compiler,
+    );
+  }
+
+  // Get the stats of the last compilation of each compiler
+  #getCompilerStats(): (Stats | undefined)[] {
+    const compilers = this.#getCompilers();
+
+    if (!this.stats) {
+      return compilers.map(() => undefined);
+    }
+
+    return typeof (this.stats as MultiStats).stats !== 'undefined'
+      ? (this.stats as MultiStats).stats
+      : [this.stats as Stats];
+  }
+
+  #getCompilerStatuses(): CompilerStatus[] {
+    const compilerStats = this.#getCompilerStats();
+
+    return this.#getCompilers().map((compiler, index) => {
+      const stats = compilerStats[index];
+      const json = stats?.toJson({
+        all: false,
+        hash: true,
+        timings: true,
+        errorsCount: true,
+        warningsCount: true,
+      });
+
+      return {
+        name: compiler.name,
+        state: this.#compilerStates.get(compiler) ?? 'idle',
+        hash: json?.hash,
+        startTime: stats?.startTime,
+        endTime: stats?.endTime,
+        time: json?.time,
+        errors: json?.errorsCount ?? 0,
+        warnings: json?.warningsCount ?? 0,
+      };
+    });
+  }
+
+  #getCompilerAssets(): CompilerAssets[] {
+    const compilerStats = this.#getCompilerStats();
+
+    return this.#getCompilers().map((compiler, index) => {
+      const json = compilerStats[index]?.toJson({
+        all: false,
+        hash: true,
+        assets: true,
+        publicPath: true,
+      });
+      const publicPath =
+        !json?.publicPath || json.publicPath === 'auto' ? '/' : json.publicPath;
+
+      return {
+        name: compiler.name,
+        hash: json?.hash,
+        assets: (json?.assets ?? []).map((asset) => ({
+          name: asset.name,
+          size: asset.size,
+          url: `${publicPath}${asset.name}`,
+        })),
+      };
+    });
+  }
+
+  async #setupWatchStaticFiles(): Promise<void> {
+    const watchFiles = this.options.static as NormalizedStatic[];
+
+    if (watchFiles.length > 0) {
+      for (const item of watchFiles) {
+        if (item.watch) {
+          await this.watchFiles(item.directory, item.watch as WatchOptions);
+        }
+      }
+    }
+  }
+
+  async #setupWatchFiles(): Promise<void> {
+    const watchFiles = this.options.watchFiles as WatchFiles[];
 
     if (watchFiles.length > 0) {
       for (const item of watchFiles) {
@@ -1520,8 +2427,29 @@ class Server<
     }
   }
 
+  async #setupMock(): Promise<void> {
+    if (!this.options.mock) {
+      return;
+    }
+
+    const options = this.options.mock as NormalizedMock;
+    const mock = new MockApi(
+      options,
+      this.logger,
+      this.#getCompilers()[0].rspack.experiments.swc.transformSync,
+    );
+    const watcher = await this.#watch(options.directory, options.watch);
+
+    // handlers and fixtures are reloaded on the next request, without reloading the pages
+    watcher.on('all', (_event: string, file: string) => {
+      mock.invalidate(file);
+    });
+
+    this.#mock = mock;
+  }
+
   async #setupMiddlewares(): Promise<void> {
-    let middlewares: Middleware[] = [];
+    let middlewares: Middleware[] = new MiddlewareList();
 
     // Register setup host header check for security
     middlewares.push({
@@ -1565,6 +2493,56 @@ class Server<
       },
     });
 
+    if (this.options.network) {
+      this.#network = new NetworkConditions(
+        this.options.network as NormalizedNetwork,
+      );
+
+      // placed first, so the rules apply to the assets, the static files and the proxied requests alike
+      middlewares.push({
+        name: 'rspack-dev-server-network-conditions',
+        middleware: this.#network.middleware,
+      });
+    }
+
+    // Transports over plain HTTP requests (e.g. `sse`) handle the requests to their path,
+    // placed before compression which would buffer the event streams
+    if (this.options.webSocketServer) {
+      middlewares.push({
+        name: 'web-socket-server',
+        middleware: (req: Request, res: Response, next: NextFunction) => {
+          if (typeof this.webSocketServer?.handleRequest !== 'function') {
+            next();
+            return;
+          }
+
+          this.webSocketServer.handleRequest(req, res, next);
+        },
+      });
+    }
+
+    if (this.options.waitingPage) {
+      // placed before compression which would buffer the event stream
+      middlewares.push({
+        name: 'rspack-dev-server-progress',
+        path: '/rspack-dev-server/progress',
+        middleware: getProgressMiddleware({
+          isDone: () => Boolean(this.stats),
+          getProgress: () => this.#progress,
+          onProgress: (listener) => {
+            this.#progressListeners.add(listener);
+
+            return () => this.#progressListeners.delete(listener);
+          },
+          onceDone: (listener) => {
+            this.#doneListeners.add(listener);
+
+            return () => this.#doneListeners.delete(listener);
+          },
+        }),
+      });
+    }
+
     // compress is placed last and uses unshift so that it will be the first middleware used
     if (this.options.compress) {
       middlewares.push({
@@ -1580,6 +2558,35 @@ class Server<
       });
     }
 
+    if (this.options.waitingPage) {
+      // navigations would otherwise hang in the dev middleware until the first compilation is done
+      middlewares.push({
+        name: 'rspack-dev-server-waiting-page',
+        middleware: (req: Request, res: Response, next: NextFunction) => {
+          if (
+            this.stats ||
+            (req.method !== 'GET' && req.method !== 'HEAD') ||
+            !isNavigationRequest(req)
+          ) {
+            next();
+            return;
+          }
+
+          res.statusCode = 503;
+          res.setHeader('Content-Type', 'text/html; charset=utf-8');
+          res.setHeader('Cache-Control', 'no-store');
+
+          // HEAD requests should not return body content
+          if (req.method === 'HEAD') {
+            res.end();
+            return;
+          }
+
+          res.end(getWaitingPage('/rspack-dev-server/progress'));
+        },
+      });
+    }
+
     middlewares.push({
       name: '@rspack/dev-middleware',
       middleware: this.middleware as DevServerMiddlewareHandler,
@@ -1600,6 +2607,14 @@ class Server<
       },
     });
 
+    middlewares.push({
+      name: 'rspack-dev-server-resolve-stack',
+      path: '/rspack-dev-server/resolve-stack',
+      middleware: getResolveStackMiddleware((frame) =>
+        this.#resolveStackFrame(frame),
+      ),
+    });
+
     middlewares.push({
       name: 'rspack-dev-server-open-editor',
       path: '/rspack-dev-server/open-editor',
@@ -1619,16 +2634,87 @@ class Server<
         const fileName = params.get('fileName');
 
         if (typeof fileName === 'string') {
+          const file = this.#resolveEditorFile(fileName);
+
+          if (!file) {
+            this.logger.warn(
+              `Refused to open "${fileName}" in the editor, the file doesn't exist or is outside of the project.`,
+            );
+
+            res.statusCode = 403;
+            res.end();
+            return;
+          }
+
+          const line = Number(params.get('line'));
+          const column = Number(params.get('column'));
+          let position = '';
+
+          if (Number.isInteger(line) && line > 0) {
+            position += `:${line}`;
+
+            if (Number.isInteger(column) && column > 0) {
+              position += `:${column}`;
+            }
+          }
+
           const { default: launchEditor } = await import(
             /* webpackChunkName: "launch-editor" */ 'launch-editor'
           );
-          launchEditor(fileName);
+          launchEditor(
+            `${file}${position}`,
+            this.options.openEditor?.editor,
+            (_fileName, errorMessage) => {
+              this.logger.warn(
+                `Failed to open "${file}" in the editor${errorMessage ? `: ${errorMessage}` : '.'}`,
+              );
+            },
+          );
         }
 
         res.end();
       },
     });
 
+    middlewares.push({
+      name: 'rspack-dev-server-api',
+      path: '/rspack-dev-server/api',
+      middleware: getApiMiddleware({
+        getStatuses: () => this.#getCompilerStatuses(),
+        getAssets: () => this.#getCompilerAssets(),
+        onceDone: (listener) => {
+          this.#doneListeners.add(listener);
+
+          return () => this.#doneListeners.delete(listener);
+        },
+      }),
+    });
+
+    if (this.#network) {
+      middlewares.push({
+        name: 'rspack-dev-server-network',
+        path: '/rspack-dev-server/network',
+        // toggling the conditions changes the state of the dev server, like the client connections
+        // it is only allowed from the pages it serves and from clients which aren't browsers
+        middleware: getNetworkMiddleware(this.#network, (req) =>
+          this.isValidClientConnection(
+            req.headers as { [key: string]: string | undefined },
+            true,
+          ),
+        ),
+      });
+    }
+
+    if (this.#usesLocalCertificate) {
+      middlewares.push({
+        name: 'rspack-dev-server-ca',
+        path: '/rspack-dev-server/ca.pem',
+        middleware: getCertificateAuthorityMiddleware(() =>
+          Server.getCertificateAuthority(),
+        ),
+      });
+    }
+
     middlewares.push({
       name: 'rspack-dev-server-assets',
       path: '/rspack-dev-server',
@@ -1705,6 +2791,14 @@ class Server<
       },
     });
 
+    // placed before the proxy, so mocks can shadow real backends
+    if (this.#mock) {
+      middlewares.push({
+        name: 'rspack-dev-server-mock',
+        middleware: this.#mock.middleware,
+      });
+    }
+
     if (this.options.proxy) {
       const { createProxyMiddleware } = await import(
         /* webpackChunkName: "http-proxy-middleware" */ 'http-proxy-middleware'
@@ -1716,10 +2810,62 @@ class Server<
         error: this.logger.error.bind(this.logger),
       };
 
+      const getProxyError = (
+        error: Error,
+        req: IncomingMessage,
+        target: string | { href?: string } | undefined,
+      ): ServerMessageData<'proxy-error'> => ({
+        method: req.method || 'GET',
+        path: (req as Request).originalUrl || req.url || '/',
+        target: typeof target === 'string' ? target : target?.href,
+        code: (error as NodeJS.ErrnoException).code,
+        message: error.message,
+      });
+      const sendProxyError = (
+        error: Error,
+        req: IncomingMessage,
+        res: Response | Socket,
+        target?: string | { href?: string },
+      ) => {
+        // WebSocket upgrades
+        if (!('writeHead' in res)) {
+          res.destroy();
+          return;
+        }
+
+        const { code } = error as NodeJS.ErrnoException;
+        const status = /HPE_INVALID/.test(code || '')
+          ? 502
+          : ['ECONNRESET', 'ENOTFOUND', 'ECONNREFUSED', 'ETIMEDOUT'].includes(
+                code || '',
+              )
+            ? 504
+            : 500;
+
+        if (res.headersSent) {
+          res.end();
+          return;
+        }
+
+        if (isNavigationRequest(req)) {
+          res.writeHead(status, {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Cache-Control': 'no-store',
+          });
+          res.end(getProxyErrorPage(status, getProxyError(error, req, target)));
+          return;
+        }
+
+        res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(
+          `Error occurred while trying to proxy: ${req.headers.host || ''}${req.url}`,
+        );
+      };
+
       const getProxyMiddleware = (
-        proxyConfig: DevServerProxyConfigArrayItem,
+        proxyConfig: ProxyConfigArrayItem,
       ): RequestHandler | undefined => {
-        const { context, ...proxyOptions } = proxyConfig;
+        const { context, traffic, ...proxyOptions } = proxyConfig;
         const pathFilter = proxyOptions.pathFilter ?? context;
 
         if (typeof pathFilter !== 'undefined') {
@@ -1730,6 +2876,38 @@ class Server<
           proxyOptions.logger = defaultProxyLogger;
         }
 
+        // replaces the plain text response of `http-proxy-middleware`
+        if (!proxyOptions.on?.error) {
+          proxyOptions.on = { ...proxyOptions.on, error: sendProxyError };
+        }
+
+        proxyOptions.plugins = [
+          ...(proxyOptions.plugins ?? []),
+          (proxyServer) => {
+            proxyServer.on('error', (error, req, _res, target) => {
+              this.#emit('proxy:error', {
+                error,
+                req,
+                target: typeof target === 'string' ? target : target?.href,
+              });
+
+              if (this.webSocketServer) {
+                this.sendMessage(
+                  this.webSocketServer.clients,
+                  'proxy-error',
+                  getProxyError(error, req, target),
+                );
+              }
+            });
+          },
+        ];
+
+        if (traffic) {
+          proxyOptions.plugins.push(
+            getProxyTrafficPlugin(traffic, proxyOptions.logger),
+          );
+        }
+
         if (proxyOptions.target || proxyOptions.router) {
           return createProxyMiddleware(
             proxyOptions as Parameters<typeof createProxyMiddleware>[0],
@@ -1898,23 +3076,33 @@ class Server<
 
     // Register this middleware always as the last one so that it's only used as a
     // fallback when no other middleware responses.
-    middlewares.push({
-      name: 'options-middleware',
-      middleware: (req: Request, res: Response, next: NextFunction) => {
-        if (req.method === 'OPTIONS') {
-          res.statusCode = 204;
-          res.setHeader('Content-Length', '0');
-          res.end();
-          return;
-        }
-        next();
-      },
-    });
+    // In middleware mode unhandled requests fall through to the host application instead.
+    if (!this.options.middlewareMode) {
+      middlewares.push({
+        name: 'options-middleware',
+        middleware: (req: Request, res: Response, next: NextFunction) => {
+          if (req.method === 'OPTIONS') {
+            res.statusCode = 204;
+            res.setHeader('Content-Length', '0');
+            res.end();
+            return;
+          }
+          next();
+        },
+      });
+    }
 
     if (typeof this.options.setupMiddlewares === 'function') {
-      middlewares = this.options.setupMiddlewares(middlewares, this);
+      middlewares = this.options.setupMiddlewares(
+        middlewares as MiddlewareList,
+        this,
+      );
     }
 
+    const transformIndexHtmlPlugins = (
+      this.options.plugins as DevServerPlugin<A, S>[]
+    ).filter((plugin) => plugin.transformIndexHtml);
+
     // Lazy init Rspack dev middleware
     const lazyInitDevMiddleware = () => {
       if (!this.middleware) {
@@ -1933,13 +3121,36 @@ class Server<
         const item = i as MiddlewareObject | NextHandleFunction;
 
         if (typeof (item as MiddlewareObject).middleware === 'undefined') {
+          const middleware =
+            lazyInitDevMiddleware() as unknown as DevServerMiddlewareHandler;
+
           (item as MiddlewareObject).middleware =
-            lazyInitDevMiddleware() as unknown as DevServerMiddlewareHandler;
+            transformIndexHtmlPlugins.length
+              ? this.#createIndexHtmlMiddleware(
+                  middleware,
+                  transformIndexHtmlPlugins,
+                )
+              : middleware;
         }
       }
     }
 
-    for (const middleware of middlewares) {
+    this.logger.debug(`Middlewares:\n${describeMiddlewares(middlewares)}`);
+
+    for (let middleware of middlewares) {
+      if (this.#accessLog) {
+        middleware =
+          typeof middleware === 'function'
+            ? this.#accessLog.track('<anonymous>', middleware)
+            : {
+                ...middleware,
+                middleware: this.#accessLog.track(
+                  middleware.name ?? '<anonymous>',
+                  middleware.middleware,
+                ),
+              };
+      }
+
       if (typeof middleware === 'function') {
         (this.app as A).use(middleware as NextHandleFunction | HandleFunction);
       } else if (typeof middleware.path !== 'undefined') {
@@ -1955,19 +3166,170 @@ class Server<
     }
   }
 
+  // Serves the HTML files of the bundle through the `transformIndexHtml` hooks,
+  // other requests are passed to the dev middleware
+  #createIndexHtmlMiddleware(
+    devMiddlewareHandler: DevServerMiddlewareHandler,
+    plugins: DevServerPlugin<A, S>[],
+  ): DevServerMiddlewareHandler {
+    return (req, res, next) => {
+      if ((req.method !== 'GET' && req.method !== 'HEAD') || !this.middleware) {
+        devMiddlewareHandler(req, res, next);
+        return;
+      }
+
+      const middleware = this.middleware;
+
+      middleware.waitUntilValid(async () => {
+        let resolved: ReturnType<typeof middleware.getFilenameFromUrl>;
+
+        try {
+          resolved = middleware.getFilenameFromUrl(req.url || '/');
+        } catch {
+          // invalid URLs are rejected by the dev middleware
+        }
+
+        if (!resolved || !resolved.filename.endsWith('.html')) {
+          devMiddlewareHandler(req, res, next);
+          return;
+        }
+
+        const { filename, extra } = resolved;
+
+        try {
+          let html = (
+            extra.outputFileSystem.readFileSync(filename) as Buffer
+          ).toString('utf8');
+
+          for (const plugin of plugins) {
+            html = await plugin.transformIndexHtml!(html, {
+              req: req as Request,
+              filename,
+              devServer: this,
+            });
+          }
+
+          this.#sendIndexHtml(
+            req as Request,
+            res as Response,
+            html,
+            extra.stats?.mtime,
+          );
+        } catch (error) {
+          next(error);
+        }
+      });
+    };
+  }
+
+  // The transformed HTML is sent with the `headers`, `etag` and `lastModified` options
+  // of the dev middleware, ranges are ignored as they refer to the emitted file
+  #sendIndexHtml(
+    req: Request,
+    res: Response,
+    html: string,
+    mtime: Date | undefined,
+  ): void {
+    const { headers, etag, lastModified } = this.options.devMiddleware ?? {};
+    const extraHeaders =
+      typeof headers === 'function'
+        ? headers(
+            req,
+            res,
+            (
+              this.middleware as import('@rspack/dev-middleware').API<
+                Request,
+                Response
+              >
+            ).context,
+          )
+        : headers;
+
+    if (extraHeaders) {
+      const entries = Array.isArray(extraHeaders)
+        ? extraHeaders.map(({ key, value }) => [key, value] as const)
+        : Object.entries(extraHeaders);
+
+      for (const [key, value] of entries) {
+        res.setHeader(key, value);
+      }
+    }
+
+    if (!res.getHeader('Content-Type')) {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    }
+
+    const body = Buffer.from(html);
+
+    if (etag && !res.getHeader('ETag')) {
+      const hash = createHash('sha1')
+        .update(body)
+        .digest('base64')
+        .slice(0, 27);
+
+      res.setHeader(
+        'ETag',
+        `${etag === 'weak' ? 'W/' : ''}"${body.length.toString(16)}-${hash}"`,
+      );
+    }
+
+    if (lastModified && mtime && !res.getHeader('Last-Modified')) {
+      res.setHeader('Last-Modified', mtime.toUTCString());
+    }
+
+    if (isFreshResponse(req, res)) {
+      res.statusCode = 304;
+      res.removeHeader('Content-Type');
+      res.end();
+      return;
+    }
+
+    res.setHeader('Content-Length', body.length);
+
+    // HEAD requests should not return body content
+    if (req.method === 'HEAD') {
+      res.end();
+      return;
+    }
+
+    res.end(body);
+  }
+
   /**
    * @private
    * @returns {Promise<void>}
    */
   async #createServer() {
-    const { type, options } = this.options.server as ServerConfiguration<A, S>;
+    const targets = this.#getListenTargets();
+
+    this.server = await this.#createListener();
+    this.servers = [this.server];
+
+    // the WebSocket server and the proxies listen to the upgrades of the first server
+    for (let index = 1; index < targets.length; index++) {
+      const server = await this.#createListener();
+
+      server.on('upgrade', (req: IncomingMessage, socket: Duplex, head) => {
+        (this.server as S).emit('upgrade', req, socket, head);
+      });
+
+      this.servers.push(server);
+    }
+  }
+
+  async #createListener(): Promise<S> {
+    const { type, options: serverOptions } = this.options
+      .server as ServerConfiguration<A, S>;
+    // not an option of the TLS servers
+    const { plainHttp, ...options } = serverOptions ?? {};
+    let server: S;
 
     if (typeof type === 'function') {
-      this.server = await type(options as ServerOptions, this.app as A);
+      server = await type(options as ServerOptions, this.app as A);
     } else {
       const serverType = require(type as string);
 
-      this.server =
+      server =
         type === 'http2'
           ? serverType.createSecureServer(
               { ...options, allowHTTP1: true },
@@ -1977,10 +3339,17 @@ class Server<
     }
 
     this.isTlsServer =
-      typeof (this.server as unknown as import('tls').Server)
-        .setSecureContext !== 'undefined';
+      typeof (server as unknown as import('tls').Server).setSecureContext !==
+      'undefined';
 
-    (this.server as S).on('connection', (socket: Socket) => {
+    if (this.isTlsServer && plainHttp) {
+      this.#acceptPlainHttp(
+        server as unknown as import('tls').Server,
+        plainHttp,
+      );
+    }
+
+    server.on('connection', (socket: Socket) => {
       // Add socket to list
       this.sockets.push(socket);
 
@@ -1990,11 +3359,168 @@ class Server<
       });
     });
 
-    (this.server as S).on('error', (error: Error) => {
-      throw error;
+    return server;
+  }
+
+  // the host names of the TCP targets, resolved once the server started
+  #getListenHosts(): string[] {
+    return this.#getListenTargets().flatMap((target) =>
+      'ipc' in target || !target.host ? [] : [target.host],
+    );
+  }
+
+  #getListenTargets(): NormalizedListenTarget[] {
+    if (this.options.listen) {
+      return this.options.listen as NormalizedListenTarget[];
+    }
+
+    return [
+      this.options.ipc
+        ? { ipc: this.options.ipc as string }
+        : {
+            host: this.options.host as string | undefined,
+            port: this.options.port,
+          },
+    ];
+  }
+
+  // plain HTTP requests on the port of the TLS server are told apart by their first byte,
+  // TLS connections start with a handshake record
+  #acceptPlainHttp(
+    server: import('tls').Server,
+    mode: 'redirect' | 'serve',
+  ): void {
+    const tlsListeners = server.listeners('connection') as ((
+      socket: Socket,
+    ) => void)[];
+    const httpServer =
+      mode === 'serve'
+        ? http.createServer(this.app as unknown as http.RequestListener)
+        : http.createServer((req, res) => {
+            const headers = req.headers as {
+              [key: string]: string | undefined;
+            };
+
+            if (!headers.host || !this.isValidHost(headers, 'host')) {
+              res.statusCode = 403;
+              res.end('Invalid Host header');
+              return;
+            }
+
+            // temporary, browsers would remember a permanent redirect for every page of the host
+            res.statusCode = 307;
+            res.setHeader('Location', `https://${headers.host}${req.url}`);
+            res.end();
+          });
+
+    if (mode === 'serve') {
+      // the WebSocket server and the proxies listen to the upgrades of the TLS server
+      httpServer.on('upgrade', (req, socket, head) => {
+        server.emit('upgrade', req, socket, head);
+      });
+    }
+
+    server.removeAllListeners('connection');
+    server.on('connection', (socket: Socket) => {
+      // until the protocol is known, then the servers handle the errors
+      const onError = () => {
+        socket.destroy();
+      };
+      const onReadable = () => {
+        const data = socket.read(1) as Buffer | null;
+
+        if (data === null) {
+          socket.once('readable', onReadable);
+          return;
+        }
+
+        socket.off('error', onError);
+        socket.unshift(data);
+
+        // 0x16 is the content type of the TLS handshake records
+        if (data[0] === 0x16) {
+          for (const listener of tlsListeners) {
+            listener.call(server, socket);
+          }
+        } else {
+          httpServer.emit('connection', socket);
+        }
+      };
+
+      socket.on('error', onError);
+      socket.once('readable', onReadable);
+    });
+  }
+
+  // e.g. certificates rotated by mkcert or step-ca
+  async #watchCertificates(): Promise<void> {
+    if (!this.isTlsServer || this.#certificateSources.size === 0) {
+      return;
+    }
+
+    const { watch } = await getChokidar();
+    const watcher = watch(
+      [...this.#certificateSources.values()].flatMap(getTlsFiles),
+      { ignoreInitial: true },
+    );
+    let timeout: NodeJS.Timeout | undefined;
+
+    // the key and the certificate are usually replaced one after the other
+    watcher.on('all', () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        this.#reloadCertificates();
+      }, 100);
+      timeout.unref();
+    });
+
+    this.staticWatchers.push(watcher);
+
+    // so the files rotated right after the start are not missed
+    await new Promise<void>((resolve) => {
+      watcher.once('ready', () => resolve());
     });
   }
 
+  #reloadCertificates(): void {
+    if (!this.server) {
+      return;
+    }
+
+    const serverOptions = (this.options.server as ServerConfiguration<A, S>)
+      .options as ServerOptions;
+    const options: ServerOptions = { ...serverOptions };
+
+    try {
+      for (const [property, value] of this.#certificateSources) {
+        options[property] = readTlsOption(value) as EXPECTED_ANY;
+      }
+
+      for (const server of this.servers) {
+        (server as unknown as import('tls').Server).setSecureContext(options);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to reload the SSL certificate: ${(error as Error).message}`,
+      );
+      return;
+    }
+
+    Object.assign(serverOptions, options);
+
+    const [cert] = [options.cert].flat();
+
+    if (cert) {
+      const { validTo } = new X509Certificate(cert as string | Buffer);
+
+      this.logger.info(
+        `SSL certificate reloaded, valid until ${new Date(validTo).toISOString()}`,
+      );
+    } else {
+      this.logger.info('SSL certificate reloaded');
+    }
+  }
+
   #createWebSocketServer() {
     this.webSocketServer = new (this.#getServerTransport() as EXPECTED_ANY)(
       this,
@@ -2016,9 +3542,10 @@ class Server<
 
         if (
           !headers ||
-          !this.isValidHost(headers, 'host') ||
-          !this.isValidHost(headers, 'origin') ||
-          !this.#isSameOrigin(headers)
+          !this.isValidClientConnection(
+            headers,
+            this.webSocketServer instanceof SseServer,
+          )
         ) {
           this.sendMessage([client], 'error', 'Invalid Host/Origin header');
 
@@ -2029,6 +3556,32 @@ class Server<
           return;
         }
 
+        // clients of multi-compiler setups declare their compiler in the URL
+        const compilerId = request.url
+          ? new URL(request.url, 'http://localhost').searchParams.get(
+              'compiler',
+            )
+          : null;
+
+        if (compilerId !== null) {
+          client.compiler = compilerId;
+        }
+
+        client.on('message', (rawData) => {
+          this.#handleClientMessage(client, rawData, headers);
+        });
+        client.on('close', () => {
+          this.#emit('client:disconnected', {
+            client,
+            headers: request.headers,
+          });
+        });
+
+        this.#emit('client:connected', { client, headers: request.headers });
+
+        // the handshake, clients warn when they don't speak the same version
+        this.sendMessage([client], 'protocol', { version: PROTOCOL_VERSION });
+
         if (this.options.hot === true || this.options.hot === 'only') {
           this.sendMessage([client], 'hot');
         }
@@ -2055,7 +3608,8 @@ class Server<
           this.sendMessage(
             [client],
             'reconnect',
-            (this.options.client as DevServerClient).reconnect,
+            // normalized to a number
+            (this.options.client as DevServerClient).reconnect as number,
           );
         }
 
@@ -2086,144 +3640,466 @@ class Server<
           );
         }
 
-        if (!this.stats) {
-          return;
-        }
+        if (!this.stats) {
+          return;
+        }
+
+        this.#broadcastStats([client], this.stats, true);
+      },
+    );
+
+    for (const plugin of this.options.plugins as DevServerPlugin<A, S>[]) {
+      plugin.configureWebSocket?.(
+        this.webSocketServer as WebSocketServerImplementation,
+        this,
+      );
+    }
+  }
+
+  #handleClientMessage(
+    client: ClientConnection,
+    rawData: RawData,
+    headers: Record<string, string | undefined>,
+  ): void {
+    let message: { type?: string; data?: EXPECTED_ANY };
+
+    try {
+      message = JSON.parse(rawData.toString());
+    } catch {
+      this.logger.warn('Received a malformed message from the client');
+      return;
+    }
+
+    switch (message.type) {
+      case 'protocol': {
+        const version = message.data?.version;
+
+        if (version !== PROTOCOL_VERSION) {
+          this.logger.warn(
+            `A client using the message protocol version ${version} connected, but the dev server uses version ${PROTOCOL_VERSION}. The page may run a cached client, reload it bypassing the cache.`,
+          );
+        }
+        break;
+      }
+      case 'custom': {
+        const { event, data } = message.data || {};
+        const listeners =
+          typeof event === 'string'
+            ? this.#customMessageListeners.get(event)
+            : undefined;
+
+        if (!listeners) {
+          return;
+        }
+
+        for (const listener of listeners) {
+          try {
+            listener(data, client);
+          } catch (error) {
+            this.logger.error(
+              `Error in listener for the "${event}" message: ${error instanceof Error ? error.message : error}`,
+            );
+          }
+        }
+        break;
+      }
+      case 'console': {
+        const forwardConsole = (this.options.client as ClientConfiguration)
+          .forwardConsole as ForwardConsoleOptions | undefined;
+
+        if (!forwardConsole) {
+          return;
+        }
+
+        this.#printClientConsoleMessage(message.data || {}, headers);
+        break;
+      }
+    }
+  }
+
+  #printClientConsoleMessage(
+    {
+      level,
+      args,
+      url: pageURL,
+    }: { level?: ForwardConsoleLevel; args?: unknown[]; url?: string },
+    headers: Record<string, string | undefined>,
+  ): void {
+    const logLevels: ForwardConsoleLevel[] = [
+      'error',
+      'warn',
+      'info',
+      'log',
+      'debug',
+    ];
+    const logLevel = level && logLevels.includes(level) ? level : 'log';
+    const text = Array.isArray(args) ? args.map(String).join(' ') : '';
+    const source = [
+      pageURL ? `page: ${pageURL}` : undefined,
+      headers['user-agent']
+        ? `user agent: ${headers['user-agent']}`
+        : undefined,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    this.logger[logLevel](
+      `[browser] ${text}${source ? `\n  (${source})` : ''}`,
+    );
+  }
+
+  async #openBrowser(
+    defaultOpenTarget: string,
+    opens = this.options.open as NormalizedOpen[],
+  ): Promise<void> {
+    const { default: open } = await import(
+      /* webpackChunkName: "open" */ 'open'
+    );
+
+    Promise.all(
+      opens.map((item) => {
+        let openTarget: string;
+
+        if (item.target === '<url>') {
+          openTarget = defaultOpenTarget;
+        } else {
+          openTarget = Server.isAbsoluteURL(item.target)
+            ? item.target
+            : new URL(item.target, defaultOpenTarget).toString();
+        }
+
+        // Type assertion needed: OpenOptions is compatible at runtime but TypeScript can't verify
+        // the type match between our type definition and the ES module's type in CommonJS context
+        return open(openTarget, item.options as EXPECTED_ANY).catch(() => {
+          const app = item.options.app as App;
+          this.logger.warn(
+            `Unable to open "${openTarget}" page${
+              app
+                ? ` in "${app.name}" app${
+                    app.arguments
+                      ? ` with "${app.arguments.join(' ')}" arguments`
+                      : ''
+                  }`
+                : ''
+            }. If you are running in a headless environment, please do not use the "open" option or related flags like "--open", "--open-target", and "--open-app-name".`,
+          );
+        });
+      }),
+    );
+  }
+
+  async #logStatus() {
+    const targets = this.#getListenTargets();
+    const urlLogs: string[] = [];
+
+    for (const [index, target] of targets.entries()) {
+      const server = this.servers[index];
+
+      if ('ipc' in target) {
+        this.logger.info(`Project is running at: "${server?.address()}"`);
+      } else if (server) {
+        urlLogs.push(...this.#getUrlLogs(server, target.host));
+      }
+    }
+
+    if (urlLogs.length && this.#shouldLogInfrastructureInfo()) {
+      console.log(`${urlLogs.join('\n')}\n`);
+    }
+  }
+
+  #getUrlLogs(server: S, host: string | undefined): string[] {
+    const protocol = this.isTlsServer ? 'https' : 'http';
+    const addressInfo = server.address() as AddressInfo | null;
+    if (!addressInfo) {
+      return [];
+    }
+    const { address, port } = addressInfo;
+    const prettyPrintURL = (newHostname: string): string =>
+      url.format({ protocol, hostname: newHostname, port, pathname: '/' });
+
+    let localhost: string | undefined;
+    let loopbackIPv4: string | undefined;
+    let loopbackIPv6: string | undefined;
+    let networkUrlIPv4: string | undefined;
+    let networkUrlIPv6: string | undefined;
+
+    if (host === 'localhost') {
+      localhost = prettyPrintURL('localhost');
+    }
+
+    const parsedIP = ipaddr.parse(address);
+
+    if (parsedIP.range() === 'unspecified') {
+      localhost = prettyPrintURL('localhost');
+      loopbackIPv6 = prettyPrintURL('::1');
+
+      const networkIPv4 = Server.findIp('v4', false);
+
+      if (networkIPv4) {
+        networkUrlIPv4 = prettyPrintURL(networkIPv4);
+      }
+
+      const networkIPv6 = Server.findIp('v6', false);
+
+      if (networkIPv6) {
+        networkUrlIPv6 = prettyPrintURL(networkIPv6);
+      }
+    } else if (parsedIP.range() === 'loopback') {
+      if (parsedIP.kind() === 'ipv4') {
+        loopbackIPv4 = prettyPrintURL(parsedIP.toString());
+      } else if (parsedIP.kind() === 'ipv6') {
+        loopbackIPv6 = prettyPrintURL(parsedIP.toString());
+      }
+    } else {
+      networkUrlIPv4 =
+        parsedIP.kind() === 'ipv6' && (parsedIP as IPv6).isIPv4MappedAddress()
+          ? prettyPrintURL((parsedIP as IPv6).toIPv4Address().toString())
+          : prettyPrintURL(address);
+
+      if (parsedIP.kind() === 'ipv6') {
+        networkUrlIPv6 = prettyPrintURL(address);
+      }
+    }
+
+    const urlLogs: string[] = [];
+
+    const local = localhost || loopbackIPv4 || loopbackIPv6;
+    if (local) {
+      urlLogs.push(
+        `  ${styleText('white', '➜')}  ${styleText(['white', 'dim'], 'Local:')}    ${styleText('cyan', local)}`,
+      );
+    }
+
+    if (networkUrlIPv4) {
+      urlLogs.push(
+        `  ${styleText('white', '➜')}  ${styleText(['white', 'dim'], 'Network:')}  ${styleText('cyan', networkUrlIPv4)}`,
+      );
+    } else if (networkUrlIPv6) {
+      urlLogs.push(
+        `  ${styleText('white', '➜')}  ${styleText(['white', 'dim'], 'Network:')}  ${styleText('cyan', networkUrlIPv6)}`,
+      );
+    }
+
+    return urlLogs;
+  }
+
+  #getDefaultOpenTarget(): string | undefined {
+    const targets = this.#getListenTargets();
+    // the first target reachable by the browser
+    const index = targets.findIndex((target) => !('ipc' in target));
+
+    if (index === -1) {
+      return;
+    }
+
+    const { host } = targets[index] as { host: string | undefined };
+    const addressInfo = this.servers[index]?.address() as AddressInfo | null;
+
+    if (!addressInfo) {
+      return;
+    }
+
+    return url.format({
+      protocol: this.isTlsServer ? 'https' : 'http',
+      hostname:
+        !host || host === '0.0.0.0' || host === '::' ? 'localhost' : host,
+      port: addressInfo.port,
+      pathname: '/',
+    });
+  }
 
-        this.#sendStats([client], this.#getStats(this.stats), true);
-      },
-    );
+  #stopAndExit(): void {
+    this.stopCallback(() => {
+      if (typeof this.compiler.close === 'function') {
+        this.compiler.close(() => {
+          // eslint-disable-next-line n/no-process-exit
+          process.exit();
+        });
+      } else {
+        // eslint-disable-next-line n/no-process-exit
+        process.exit();
+      }
+    });
   }
 
-  async #openBrowser(defaultOpenTarget: string): Promise<void> {
-    const { default: open } = await import(
-      /* webpackChunkName: "open" */ 'open'
-    );
+  #getShortcuts(): Shortcut<A, S>[] {
+    const shortcuts = new Map<string, Shortcut<A, S>>();
+    const builtInShortcuts: Shortcut<A, S>[] = [
+      {
+        key: 'r',
+        description: 'force a rebuild',
+        action: () => {
+          this.logger.info('Rebuilding...');
+          this.invalidate();
+        },
+      },
+      {
+        key: 'o',
+        description: 'open in the browser',
+        action: async () => {
+          const defaultOpenTarget = this.#getDefaultOpenTarget();
 
-    Promise.all(
-      (this.options.open as NormalizedOpen[]).map((item) => {
-        let openTarget: string;
+          if (!defaultOpenTarget) {
+            return;
+          }
 
-        if (item.target === '<url>') {
-          openTarget = defaultOpenTarget;
-        } else {
-          openTarget = Server.isAbsoluteURL(item.target)
-            ? item.target
-            : new URL(item.target, defaultOpenTarget).toString();
-        }
+          const opens = this.options.open as NormalizedOpen[];
 
-        // Type assertion needed: OpenOptions is compatible at runtime but TypeScript can't verify
-        // the type match between our type definition and the ES module's type in CommonJS context
-        return open(openTarget, item.options as EXPECTED_ANY).catch(() => {
-          const app = item.options.app as App;
-          this.logger.warn(
-            `Unable to open "${openTarget}" page${
-              app
-                ? ` in "${app.name}" app${
-                    app.arguments
-                      ? ` with "${app.arguments.join(' ')}" arguments`
-                      : ''
-                  }`
-                : ''
-            }. If you are running in a headless environment, please do not use the "open" option or related flags like "--open", "--open-target", and "--open-app-name".`,
+          await this.#openBrowser(
+            defaultOpenTarget,
+            opens.length > 0
+              ? opens
+              : [{ target: '<url>', options: { wait: false } }],
           );
-        });
-      }),
+        },
+      },
+      {
+        key: 'u',
+        description: 'show server urls',
+        action: () => this.#logStatus(),
+      },
+      {
+        key: 'c',
+        description: 'clear console',
+        action: () => {
+          console.clear();
+        },
+      },
+      {
+        key: 'q',
+        description: 'quit',
+        action: () => {
+          this.#stopAndExit();
+        },
+      },
+      {
+        key: 'h',
+        description: 'show help',
+        action: () => {
+          this.#printShortcuts();
+        },
+      },
+    ];
+
+    for (const shortcut of [
+      ...builtInShortcuts,
+      ...this.#customShortcuts.values(),
+    ]) {
+      shortcuts.set(shortcut.key, shortcut);
+    }
+
+    return [...shortcuts.values()];
+  }
+
+  #printShortcuts(): void {
+    const shortcutLogs = this.#getShortcuts().map(
+      ({ key, description }) =>
+        `  ${styleText(['white', 'dim'], 'press')} ${styleText('bold', `${key} + enter`)} ${styleText(['white', 'dim'], `to ${description}`)}`,
     );
+
+    console.log(`${shortcutLogs.join('\n')}\n`);
   }
 
-  async #logStatus() {
-    const server = this.server as S;
+  #setupShortcuts(): void {
+    // Reading keys only makes sense when someone can type them
+    if (!this.options.shortcuts || !process.stdin.isTTY || process.env.CI) {
+      return;
+    }
 
-    if (this.options.ipc) {
-      this.logger.info(`Project is running at: "${server?.address()}"`);
-    } else {
-      const protocol = this.isTlsServer ? 'https' : 'http';
-      const addressInfo = server?.address() as AddressInfo | null;
-      if (!addressInfo) {
+    let isRunning = false;
+
+    this.#shortcutsInterface = readline.createInterface({
+      input: process.stdin,
+    });
+    this.#shortcutsInterface.on('line', async (input: string) => {
+      const shortcut = this.#getShortcuts().find(
+        ({ key }) => key === input.trim(),
+      );
+
+      if (!shortcut || isRunning) {
         return;
       }
-      const { address, port } = addressInfo;
-      const prettyPrintURL = (newHostname: string): string =>
-        url.format({ protocol, hostname: newHostname, port, pathname: '/' });
 
-      let localhost: string | undefined;
-      let loopbackIPv4: string | undefined;
-      let loopbackIPv6: string | undefined;
-      let networkUrlIPv4: string | undefined;
-      let networkUrlIPv6: string | undefined;
+      isRunning = true;
 
-      if (this.options.host === 'localhost') {
-        localhost = prettyPrintURL('localhost');
+      try {
+        await shortcut.action(this);
+      } catch (error) {
+        this.logger.error(
+          `Failed to run the "${shortcut.key}" shortcut: ${error instanceof Error ? error.message : error}`,
+        );
+      } finally {
+        isRunning = false;
       }
+    });
 
-      const parsedIP = ipaddr.parse(address);
+    if (this.#shouldLogInfrastructureInfo()) {
+      this.#printShortcuts();
+    }
+  }
 
-      if (parsedIP.range() === 'unspecified') {
-        localhost = prettyPrintURL('localhost');
-        loopbackIPv6 = prettyPrintURL('::1');
+  registerShortcut(shortcut: Shortcut<A, S>): void {
+    this.#customShortcuts.set(shortcut.key, shortcut);
+  }
 
-        const networkIPv4 = Server.findIp('v4', false);
+  /**
+   * Listens to a lifecycle event of the dev server, e.g. `compile:done`
+   */
+  on<T extends keyof ServerEvents>(
+    event: T,
+    listener: ServerEventListener<T>,
+  ): void {
+    let listeners = this.#eventListeners.get(event);
+
+    if (!listeners) {
+      listeners = new Set();
+      this.#eventListeners.set(event, listeners);
+    }
 
-        if (networkIPv4) {
-          networkUrlIPv4 = prettyPrintURL(networkIPv4);
-        }
+    listeners.add(listener);
+  }
 
-        const networkIPv6 = Server.findIp('v6', false);
+  off<T extends keyof ServerEvents>(
+    event: T,
+    listener: ServerEventListener<T>,
+  ): void {
+    const listeners = this.#eventListeners.get(event);
 
-        if (networkIPv6) {
-          networkUrlIPv6 = prettyPrintURL(networkIPv6);
-        }
-      } else if (parsedIP.range() === 'loopback') {
-        if (parsedIP.kind() === 'ipv4') {
-          loopbackIPv4 = prettyPrintURL(parsedIP.toString());
-        } else if (parsedIP.kind() === 'ipv6') {
-          loopbackIPv6 = prettyPrintURL(parsedIP.toString());
-        }
-      } else {
-        networkUrlIPv4 =
-          parsedIP.kind() === 'ipv6' && (parsedIP as IPv6).isIPv4MappedAddress()
-            ? prettyPrintURL((parsedIP as IPv6).toIPv4Address().toString())
-            : prettyPrintURL(address);
+    if (!listeners) {
+      return;
+    }
 
-        if (parsedIP.kind() === 'ipv6') {
-          networkUrlIPv6 = prettyPrintURL(address);
-        }
-      }
+    listeners.delete(listener);
 
-      const urlLogs: string[] = [];
+    if (listeners.size === 0) {
+      this.#eventListeners.delete(event);
+    }
+  }
 
-      const local = localhost || loopbackIPv4 || loopbackIPv6;
-      if (local) {
-        urlLogs.push(
-          `  ${styleText('white', '➜')}  ${styleText(['white', 'dim'], 'Local:')}    ${styleText('cyan', local)}`,
-        );
-      }
+  #logPluginError(
+    plugin: DevServerPlugin<A, S>,
+    hook: keyof DevServerPlugin<A, S>,
+    error: unknown,
+  ) {
+    this.logger.error(
+      `Error in the "${hook}" hook of the "${plugin.name}" plugin: ${error instanceof Error ? error.message : error}`,
+    );
+  }
 
-      if (networkUrlIPv4) {
-        urlLogs.push(
-          `  ${styleText('white', '➜')}  ${styleText(['white', 'dim'], 'Network:')}  ${styleText('cyan', networkUrlIPv4)}`,
-        );
-      } else if (networkUrlIPv6) {
-        urlLogs.push(
-          `  ${styleText('white', '➜')}  ${styleText(['white', 'dim'], 'Network:')}  ${styleText('cyan', networkUrlIPv6)}`,
-        );
-      }
+  #emit<T extends keyof ServerEvents>(event: T, payload: ServerEvents[T]) {
+    const listeners = this.#eventListeners.get(event);
 
-      if (urlLogs.length && this.#shouldLogInfrastructureInfo()) {
-        console.log(`${urlLogs.join('\n')}\n`);
-      }
+    if (!listeners) {
+      return;
+    }
 
-      if ((this.options.open as NormalizedOpen[])?.length > 0) {
-        const openTarget = prettyPrintURL(
-          !this.options.host ||
-            this.options.host === '0.0.0.0' ||
-            this.options.host === '::'
-            ? 'localhost'
-            : this.options.host,
+    for (const listener of listeners) {
+      try {
+        listener(payload);
+      } catch (error) {
+        this.logger.error(
+          `Error in listener for the "${event}" event: ${error instanceof Error ? error.message : error}`,
         );
-
-        await this.#openBrowser(openTarget);
       }
     }
   }
@@ -2345,18 +4221,43 @@ class Server<
     // so we normalize to a pure IPv6-address when parsing.
     // For convenience, always allow localhost (hostname === 'localhost')
     // and its subdomains (hostname.endsWith(".localhost")).
-    // allow hostname of listening address  (hostname === this.options.host)
+    // allow the hostnames of the listening addresses
     const isValidHostname = validateHost
       ? ipaddr.IPv4.isValid(hostname) ||
         ipaddr.IPv6.isValid(hostname) ||
         hostname === 'localhost' ||
         hostname.endsWith('.localhost') ||
-        hostname === this.options.host
+        this.#getListenHosts().includes(hostname)
       : false;
 
     return isValidHostname;
   }
 
+  /**
+   * Checks the `Host` and `Origin` headers of a client connection,
+   * with `allowMissingOrigin`, requests without `Origin` are only accepted
+   * when they don't come from another site, like same-origin event streams
+   */
+  isValidClientConnection(
+    headers: Record<string, string | undefined>,
+    allowMissingOrigin = false,
+  ): boolean {
+    if (!this.isValidHost(headers, 'host')) {
+      return false;
+    }
+
+    if (allowMissingOrigin && !headers.origin) {
+      // browsers send `Sec-Fetch-Site`, other clients aren't bound to the same-origin policy
+      const site = headers['sec-fetch-site'];
+
+      return (
+        this.options.allowedHosts === 'all' || !site || site === 'same-origin'
+      );
+    }
+
+    return this.isValidHost(headers, 'origin') && this.#isSameOrigin(headers);
+  }
+
   #isSameOrigin(headers: Record<string, string | undefined>): boolean {
     if (this.options.allowedHosts === 'all') {
       return true;
@@ -2405,12 +4306,15 @@ class Server<
     return origin === host;
   }
 
-  sendMessage(
+  // types other than the `ServerMessage` ones are allowed for custom clients
+  sendMessage<T extends LiteralUnion<ServerMessageType, string>>(
     clients: ClientConnection[],
-    type: string,
-    data?: EXPECTED_ANY,
-    params?: EXPECTED_ANY,
-  ) {
+    type: T,
+    data?: T extends ServerMessageType ? ServerMessageData<T> : EXPECTED_ANY,
+    params?: T extends ServerMessageType
+      ? ServerMessageParams<T>
+      : EXPECTED_ANY,
+  ): void {
     for (const client of clients) {
       // `ws` uses `WebSocket.OPEN` to indicate client is ready to accept data
       if (client.readyState === 1) {
@@ -2419,22 +4323,103 @@ class Server<
     }
   }
 
+  // Clients of a multi-compiler setup which declared their compiler only receive
+  // the stats of that compiler, when it was rebuilt
+  #broadcastStats(
+    clients: ClientConnection[],
+    stats: Stats | MultiStats,
+    force?: boolean,
+  ): void {
+    const { compiler } = this;
+    const generation = this.#statsGeneration;
+    // the rebuilt compilers are reset after the `done` hook, before the stats are ready
+    const compilers = isMultiCompiler(compiler)
+      ? compiler.compilers.filter(
+          (item) => force || this.#rebuiltCompilers.has(item),
+        )
+      : [];
+
+    this.#statsBroadcasts = this.#statsBroadcasts
+      .then(async () => {
+        const [multiStats, ...compilerStats] = await Promise.all([
+          this.#getStats(stats),
+          ...compilers.map((item) =>
+            this.#getStats(
+              (stats as MultiStats).stats[
+                (compiler as MultiCompiler).compilers.indexOf(item)
+              ],
+            ),
+          ),
+        ]);
+
+        // a newer build was started or finished while the stats were prepared
+        if (generation !== this.#statsGeneration) {
+          return;
+        }
+
+        this.#sendBroadcastStats(
+          clients,
+          multiStats,
+          compilers,
+          compilerStats,
+          force,
+        );
+      })
+      .catch((error) => {
+        this.logger.error(
+          `Failed to send the stats: ${error instanceof Error ? error.message : error}`,
+        );
+      });
+  }
+
+  #sendBroadcastStats(
+    clients: ClientConnection[],
+    stats: StatsCompilation,
+    compilers: Compiler[],
+    compilerStats: StatsCompilation[],
+    force?: boolean,
+  ): void {
+    if (!isMultiCompiler(this.compiler)) {
+      this.#sendStats(clients, stats, force);
+      return;
+    }
+
+    this.#sendStats(
+      clients.filter((client) => !this.#getClientCompiler(client)),
+      stats,
+      force,
+    );
+
+    for (const [index, item] of compilers.entries()) {
+      this.#sendStats(
+        clients.filter((client) => this.#getClientCompiler(client) === item),
+        compilerStats[index],
+        force,
+        item,
+      );
+    }
+  }
+
   // Send stats to a socket or multiple sockets
   #sendStats(
     clients: ClientConnection[],
     stats: StatsCompilation,
     force?: boolean,
+    compiler?: Compiler,
   ) {
     if (!stats) {
       return;
     }
 
+    const previousHash = compiler
+      ? this.#compilerHashes.get(compiler)
+      : this.currentHash;
     const shouldEmit =
       !force &&
       stats &&
       (!stats.errors || stats.errors.length === 0) &&
       (!stats.warnings || stats.warnings.length === 0) &&
-      this.currentHash === stats.hash;
+      previousHash === stats.hash;
 
     if (shouldEmit) {
       this.sendMessage(clients, 'still-ok');
@@ -2442,7 +4427,11 @@ class Server<
       return;
     }
 
-    this.currentHash = stats.hash;
+    if (compiler) {
+      this.#compilerHashes.set(compiler, stats.hash);
+    } else {
+      this.currentHash = stats.hash;
+    }
     this.sendMessage(clients, 'hash', stats.hash);
 
     if (
@@ -2479,27 +4468,33 @@ class Server<
     }
   }
 
-  async watchFiles(
+  // closed together with the `watchFiles` watchers when the server stops
+  async #watch(
     watchPath: string | string[],
     watchOptions?: WatchOptions,
-  ): Promise<void> {
+  ): Promise<FSWatcher> {
     const { watch } = await getChokidar();
     const watcher = watch(watchPath, watchOptions);
 
-    // disabling refreshing on changing the content
-    if (this.options.liveReload) {
-      watcher.on('change', (item: string) => {
-        if (this.webSocketServer) {
-          this.sendMessage(
-            this.webSocketServer.clients,
-            'static-changed',
-            item,
-          );
-        }
-      });
-    }
-
     this.staticWatchers.push(watcher);
+
+    return watcher;
+  }
+
+  async watchFiles(
+    watchPath: string | string[],
+    watchOptions?: WatchOptions,
+  ): Promise<void> {
+    const watcher = await this.#watch(watchPath, watchOptions);
+
+    watcher.on('change', (item: string) => {
+      this.#emit('static:changed', { file: item });
+
+      // disabling refreshing on changing the content
+      if (this.options.liveReload && this.webSocketServer) {
+        this.sendMessage(this.webSocketServer.clients, 'static-changed', item);
+      }
+    });
   }
 
   invalidate(callback: import('@rspack/dev-middleware').Callback = () => {}) {
@@ -2508,64 +4503,105 @@ class Server<
     }
   }
 
+  /**
+   * Handles an HTTP `upgrade` request of the host server in middleware mode,
+   * including the requests for proxied WebSocket connections.
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const implementation = this.webSocketServer?.implementation;
+
+    if (implementation && implementation.shouldHandle(req)) {
+      implementation.handleUpgrade(req, socket, head, (connection) => {
+        implementation.emit('connection', connection, req);
+      });
+
+      return;
+    }
+
+    for (const webSocketProxy of this.webSocketProxies) {
+      (
+        webSocketProxy as NextHandleFunction & {
+          upgrade: RequestHandler['upgrade'];
+        }
+      ).upgrade(req, socket as Socket, head);
+    }
+  }
+
   async start(): Promise<void> {
     await this.#normalizeOptions();
 
-    if (this.options.ipc) {
-      await new Promise<void>((resolve, reject) => {
-        const net = require('node:net');
-
-        const socket = new net.Socket();
+    if (this.options.middlewareMode) {
+      await this.#initialize();
 
-        socket.on('error', (error: Error & { code?: string }) => {
-          if (error.code === 'ECONNREFUSED') {
-            // No other server listening on this socket, so it can be safely removed
-            fs.unlinkSync(this.options.ipc as string);
+      if (this.options.webSocketServer) {
+        this.#createWebSocketServer();
+      }
 
-            resolve();
+      return;
+    }
 
-            return;
-          }
-          if (error.code === 'ENOENT') {
-            resolve();
+    const targets = this.#getListenTargets();
 
-            return;
-          }
+    for (const target of targets) {
+      if ('ipc' in target) {
+        await this.#checkIpc(target.ipc);
+      } else {
+        target.host = await Server.getHostname(target.host as DevServerHost);
+        target.port = await Server.getFreePort(
+          target.port as string,
+          target.host as DevServerHost,
+        );
+      }
+    }
 
-          reject(error);
-        });
+    // without `listen`, the target is made of `host` and `port`
+    if (!this.options.listen && !this.options.ipc) {
+      const [{ host, port }] = targets as { host: string; port: Port }[];
 
-        socket.connect({ path: this.options.ipc as string }, () => {
-          throw new Error(`IPC "${this.options.ipc}" is already used`);
-        });
-      });
-    } else {
-      this.options.host = await Server.getHostname(
-        this.options.host as DevServerHost,
-      );
-      this.options.port = await Server.getFreePort(
-        this.options.port as string,
-        this.options.host as DevServerHost,
-      );
+      this.options.host = host;
+      this.options.port = port;
     }
 
     await this.#initialize();
 
-    const listenOptions = this.options.ipc
-      ? { path: this.options.ipc }
-      : { host: this.options.host, port: this.options.port };
+    const results = await Promise.allSettled(
+      targets.map(
+        (target, index) =>
+          new Promise<void>((resolve, reject) => {
+            const server = this.servers[index];
+
+            server.once('error', reject);
+            server.listen(
+              'ipc' in target
+                ? { path: target.ipc }
+                : { host: target.host, port: target.port },
+              () => {
+                // later errors are thrown, like the errors of a single server
+                server.off('error', reject);
+                resolve();
+              },
+            );
+          }),
+      ),
+    );
+    const failure = results.find(
+      (result): result is PromiseRejectedResult => result.status === 'rejected',
+    );
 
-    await new Promise<void>((resolve) => {
-      (this.server as S).listen(listenOptions, () => {
-        resolve();
-      });
-    });
+    // e.g. a port in use, the servers which started are closed with the rest
+    if (failure) {
+      await this.stop();
+
+      throw failure.reason;
+    }
 
-    if (this.options.ipc) {
-      // chmod 666 (rw rw rw)
-      const READ_WRITE = 438;
+    for (const target of targets) {
+      if ('ipc' in target) {
+        // chmod 666 (rw rw rw)
+        const READ_WRITE = 438;
 
-      await fs.promises.chmod(this.options.ipc as string, READ_WRITE);
+        await fs.promises.chmod(target.ipc, READ_WRITE);
+      }
     }
 
     if (this.options.webSocketServer) {
@@ -2574,11 +4610,53 @@ class Server<
 
     await this.#logStatus();
 
+    const defaultOpenTarget = this.#getDefaultOpenTarget();
+
+    if (
+      defaultOpenTarget &&
+      (this.options.open as NormalizedOpen[])?.length > 0
+    ) {
+      await this.#openBrowser(defaultOpenTarget);
+    }
+
+    this.#setupShortcuts();
+
     if (typeof this.options.onListening === 'function') {
       this.options.onListening(this);
     }
   }
 
+  async #checkIpc(ipc: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      const net = require('node:net');
+
+      const socket = new net.Socket();
+
+      socket.on('error', (error: Error & { code?: string }) => {
+        if (error.code === 'ECONNREFUSED') {
+          // No other server listening on this socket, so it can be safely removed
+          fs.unlinkSync(ipc);
+
+          resolve();
+
+          return;
+        }
+        if (error.code === 'ENOENT') {
+          resolve();
+
+          return;
+        }
+
+        reject(error);
+      });
+
+      socket.connect({ path: ipc }, () => {
+        socket.destroy();
+        reject(new Error(`IPC "${ipc}" is already used`));
+      });
+    });
+  }
+
   startCallback(callback: (err?: Error) => void = () => {}) {
     this.start()
       .then(() => callback(), callback)
@@ -2586,8 +4664,23 @@ class Server<
   }
 
   async stop(): Promise<void> {
+    this.#emit('stopping', undefined);
+
+    for (const plugin of this.options.plugins ?? []) {
+      try {
+        await plugin.onStop?.(this);
+      } catch (error) {
+        this.#logPluginError(plugin, 'onStop', error);
+      }
+    }
+
     this.webSocketProxies = [];
 
+    if (this.#shortcutsInterface) {
+      this.#shortcutsInterface.close();
+      this.#shortcutsInterface = undefined;
+    }
+
     await Promise.all(this.staticWatchers.map((watcher) => watcher.close()));
 
     this.staticWatchers = [];
@@ -2612,39 +4705,50 @@ class Server<
       });
     }
 
-    if (this.server) {
-      await new Promise<void>((resolve) => {
-        (this.server as S).close(() => {
-          this.server = undefined;
-          resolve();
-        });
+    if (this.servers.length > 0) {
+      const closing = this.servers.map(
+        (server) =>
+          new Promise<void>((resolve) => {
+            server.close(() => {
+              resolve();
+            });
+          }),
+      );
 
-        for (const socket of this.sockets) {
-          socket.destroy();
-        }
+      for (const socket of this.sockets) {
+        socket.destroy();
+      }
 
-        this.sockets = [];
-      });
+      await Promise.all(closing);
 
-      if (this.middleware) {
-        await new Promise<void>((resolve, reject) => {
-          (
-            this.middleware as import('@rspack/dev-middleware').API<
-              Request,
-              Response
-            >
-          ).close((error) => {
-            if (error) {
-              reject(error);
-              return;
-            }
+      this.sockets = [];
+      this.servers = [];
+      this.server = undefined;
+    }
 
-            resolve();
-          });
+    if (this.middleware) {
+      await new Promise<void>((resolve, reject) => {
+        (
+          this.middleware as import('@rspack/dev-middleware').API<
+            Request,
+            Response
+          >
+        ).close((error) => {
+          if (error) {
+            reject(error);
+            return;
+          }
+
+          resolve();
         });
+      });
 
-        this.middleware = undefined;
-      }
+      this.middleware = undefined;
+    }
+
+    if (this.#accessLog) {
+      await this.#accessLog.close();
+      this.#accessLog = undefined;
     }
 
     // We add listeners to signals when creating a new Server instance
@@ -0,0 +1,207 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { Server } from '../server.js';
+import type {
+  ClientConnection,
+  WebSocketServerConfiguration,
+} from '../types.js';
+import BaseServer from './BaseServer.js';
+
+const MAX_MESSAGE_SIZE = 1024 * 1024;
+
+// An event stream which implements the parts of the `ws` WebSocket
+// used by the dev server, messages from the client arrive as POST requests
+class SseConnection extends EventEmitter {
+  id = randomUUID();
+  readyState = 1;
+  isAlive = true;
+  #res: ServerResponse;
+
+  constructor(res: ServerResponse) {
+    super();
+
+    this.#res = res;
+    this.#res.on('close', () => {
+      this.readyState = 3;
+      this.emit('close');
+    });
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 1) {
+      return;
+    }
+
+    // messages are JSON strings, so they never contain line breaks
+    this.#res.write(`data: ${data}\n\n`);
+  }
+
+  ping(): void {
+    if (this.readyState === 1) {
+      this.#res.write(': ping\n\n');
+    }
+  }
+
+  close(): void {
+    if (this.readyState !== 1) {
+      return;
+    }
+
+    this.readyState = 2;
+    this.#res.end();
+  }
+
+  terminate(): void {
+    this.#res.destroy();
+  }
+}
+
+class SseServerImplementation extends EventEmitter {
+  // event streams are plain HTTP requests, never upgrades
+  shouldHandle(): boolean {
+    return false;
+  }
+
+  close(callback?: () => void): void {
+    this.emit('close');
+    callback?.();
+  }
+}
+
+export class SseServer extends BaseServer {
+  // keeps proxies from closing idle streams
+  static heartbeatInterval = 15_000;
+
+  implementation: SseServerImplementation;
+  #connections = new Map<string, SseConnection>();
+  #path: string;
+
+  constructor(server: Server) {
+    super(server);
+
+    this.#path =
+      (this.server.options.webSocketServer as WebSocketServerConfiguration)
+        .options?.path ?? '/ws';
+    this.implementation = new SseServerImplementation();
+
+    const interval = setInterval(() => {
+      for (const connection of this.#connections.values()) {
+        connection.ping();
+      }
+    }, SseServer.heartbeatInterval);
+
+    this.implementation.on('close', () => {
+      clearInterval(interval);
+    });
+  }
+
+  // called by the dev server middleware for every request
+  handleRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    next: () => void,
+  ): void {
+    const { pathname, searchParams } = new URL(
+      req.url || '/',
+      'http://localhost',
+    );
+
+    if (pathname !== this.#path) {
+      next();
+      return;
+    }
+
+    if (req.method === 'GET') {
+      this.#handleEventStream(req, res);
+      return;
+    }
+
+    if (req.method === 'POST') {
+      this.#handleClientMessage(req, res, searchParams.get('id'));
+      return;
+    }
+
+    next();
+  }
+
+  #handleEventStream(req: IncomingMessage, res: ServerResponse): void {
+    // browsers don't send the `Origin` header for same-origin event streams
+    if (
+      !this.server.isValidClientConnection(
+        req.headers as Record<string, string | undefined>,
+        true,
+      )
+    ) {
+      res.statusCode = 403;
+      res.end('Invalid Host/Origin header');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      // disable the response buffering of nginx
+      'X-Accel-Buffering': 'no',
+    });
+
+    const connection = new SseConnection(res);
+    const client = connection as unknown as ClientConnection;
+
+    this.#connections.set(connection.id, connection);
+    this.clients.push(client);
+
+    connection.on('close', () => {
+      this.#connections.delete(connection.id);
+
+      const index = this.clients.indexOf(client);
+
+      if (index !== -1) {
+        this.clients.splice(index, 1);
+      }
+    });
+
+    // the client needs the id to send messages to this connection
+    res.write(`event: connected\ndata: ${connection.id}\n\n`);
+
+    this.implementation.emit('connection', client, req);
+  }
+
+  #handleClientMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    id: string | null,
+  ): void {
+    const connection = id ? this.#connections.get(id) : undefined;
+
+    if (!connection) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+
+      if (size > MAX_MESSAGE_SIZE) {
+        res.statusCode = 413;
+        res.end();
+        // no `end` event is emitted after destroying
+        req.destroy();
+        return;
+      }
+
+      chunks.push(chunk);
+    });
+
+    req.on('end', () => {
+      connection.emit('message', Buffer.concat(chunks), false);
+
+      res.statusCode = 204;
+      res.end();
+    });
+  }
+}
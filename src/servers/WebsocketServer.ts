@@ -39,22 +39,26 @@ export class WebsocketServer extends BaseServer {
 
     this.implementation = new Ws.WebSocketServer(options);
 
-    (this.server.server as import('http').Server).on(
-      'upgrade',
-      (
-        req: import('http').IncomingMessage,
-        sock: import('stream').Duplex,
-        head: Buffer,
-      ) => {
-        if (!this.implementation.shouldHandle(req)) {
-          return;
-        }
-
-        this.implementation.handleUpgrade(req, sock, head, (connection) => {
-          this.implementation.emit('connection', connection, req);
-        });
-      },
-    );
+    // In middleware mode there is no server to attach to,
+    // upgrades are forwarded through `Server#handleUpgrade` instead
+    if (this.server.server) {
+      (this.server.server as import('http').Server).on(
+        'upgrade',
+        (
+          req: import('http').IncomingMessage,
+          sock: import('stream').Duplex,
+          head: Buffer,
+        ) => {
+          if (!this.implementation.shouldHandle(req)) {
+            return;
+          }
+
+          this.implementation.handleUpgrade(req, sock, head, (connection) => {
+            this.implementation.emit('connection', connection, req);
+          });
+        },
+      );
+    }
 
     this.implementation.on('error', (err: Error) => {
       this.server.logger.error(err.message);
@@ -0,0 +1,169 @@
+/**
+ * A minimal source map consumer, only supports the lookup of
+ * a single generated position used by the error overlay.
+ * Index maps (`sections`) are not supported.
+ */
+
+export interface RawSourceMap {
+  version: number;
+  sources: string[];
+  sourcesContent?: (string | null)[];
+  sourceRoot?: string;
+  names?: string[];
+  mappings: string;
+}
+
+export interface OriginalPosition {
+  source: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  name?: string;
+  sourceContent?: string;
+}
+
+const BASE64_CHARS =
+  'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const BASE64_VALUES = new Map<string, number>(
+  [...BASE64_CHARS].map((char, index) => [char, index]),
+);
+
+/**
+ * Decode a single mapping segment, e.g. `AAAA` or `gBAAgB`
+ */
+const decodeSegment = (segment: string): number[] => {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64_VALUES.get(char);
+
+    if (digit === undefined) {
+      throw new Error(`Invalid character "${char}" in source map mappings`);
+    }
+
+    value += (digit & 31) << shift;
+
+    if (digit & 32) {
+      shift += 5;
+      continue;
+    }
+
+    const negative = value & 1;
+
+    value >>>= 1;
+    values.push(negative ? -value : value);
+    value = 0;
+    shift = 0;
+  }
+
+  return values;
+};
+
+/**
+ * The source at `index`, relative sources are resolved against `sourceRoot`
+ */
+const getSource = (map: RawSourceMap, index: number): string => {
+  const source = map.sources[index];
+
+  // absolute paths and URLs, e.g. `/src/index.js` or `webpack:///./src/index.js`
+  if (!map.sourceRoot || /^(?:[a-z][\w+.-]*:|\/)/i.test(source)) {
+    return source;
+  }
+
+  return `${map.sourceRoot.replace(/\/$/, '')}/${source}`;
+};
+
+/**
+ * Find the original position of a generated position.
+ * Both `line` and `column` are 1-based, like in browser stack traces.
+ */
+export function originalPositionFor(
+  map: RawSourceMap,
+  line: number,
+  column: number,
+): OriginalPosition | undefined {
+  if (typeof map.mappings !== 'string' || !Array.isArray(map.sources)) {
+    return;
+  }
+
+  const lines = map.mappings.split(';');
+
+  if (line < 1 || line > lines.length) {
+    return;
+  }
+
+  // source index, original line, original column and name index
+  // are relative to the previous segment across all lines
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let nameIndex = 0;
+
+  for (let index = 0; index < line - 1; index++) {
+    for (const segment of lines[index].split(',')) {
+      if (!segment) {
+        continue;
+      }
+
+      const values = decodeSegment(segment);
+
+      if (values.length >= 4) {
+        sourceIndex += values[1];
+        originalLine += values[2];
+        originalColumn += values[3];
+      }
+
+      if (values.length >= 5) {
+        nameIndex += values[4];
+      }
+    }
+  }
+
+  let generatedColumn = 0;
+  let found: OriginalPosition | undefined;
+
+  for (const segment of lines[line - 1].split(',')) {
+    if (!segment) {
+      continue;
+    }
+
+    const values = decodeSegment(segment);
+
+    generatedColumn += values[0];
+
+    if (values.length >= 4) {
+      sourceIndex += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+    }
+
+    if (values.length >= 5) {
+      nameIndex += values[4];
+    }
+
+    if (generatedColumn > column - 1) {
+      break;
+    }
+
+    if (values.length >= 4) {
+      const sourceContent = map.sourcesContent?.[sourceIndex];
+
+      found = {
+        source: getSource(map, sourceIndex),
+        line: originalLine + 1,
+        column: originalColumn + 1,
+        name: values.length >= 5 ? map.names?.[nameIndex] : undefined,
+        sourceContent:
+          typeof sourceContent === 'string' ? sourceContent : undefined,
+      };
+    } else {
+      found = undefined;
+    }
+  }
+
+  return found;
+}
@@ -6,9 +6,13 @@ import type {
 import type { ServerOptions } from 'node:https';
 import type {
   DevServer,
+  DevServerClient,
   DevServerMiddlewareHandler,
   DevServerOpenOptions,
+  DevServerProxyConfigArrayItem,
   DevServerStaticItem,
+  MultiStats,
+  Stats,
 } from '@rspack/core';
 import type { FSWatcher, ChokidarOptions as WatchOptions } from 'chokidar';
 import type {
@@ -67,6 +71,14 @@ export type DevMiddlewareContext<
   U extends Response,
 > = import('@rspack/dev-middleware').Context<T, U>;
 
+export type DevMiddlewareConfiguration = DevMiddlewareOptions<
+  Request,
+  Response
+> & {
+  /** keep serving the assets of the last build without errors while a rebuild fails */
+  serveLastSuccessfulBuild?: boolean;
+};
+
 export type Port = number | LiteralUnion<'auto', string>;
 
 export interface WatchFiles {
@@ -84,6 +96,127 @@ export interface NormalizedStatic {
   watch: false | WatchOptions;
 }
 
+export interface MockOptions {
+  /** directory of the route handlers and JSON fixtures, `mock` of the current working directory by default */
+  directory?: string;
+  /** latency of every mocked response in milliseconds */
+  delay?: number;
+}
+
+export interface NormalizedMock {
+  directory: string;
+  delay: number;
+  watch: WatchOptions;
+}
+
+export interface MockContext {
+  /** values of the `[name]` segments of the file path */
+  params: Record<string, string>;
+  query: URLSearchParams;
+  /** the request body, parsed when it is JSON */
+  body: unknown;
+}
+
+/**
+ * Handler exported by a mock module, the returned value is sent as JSON
+ * unless it is a string or a buffer, or the handler responded itself
+ */
+export type MockHandler = (
+  req: Request,
+  res: Response,
+  context: MockContext,
+) => unknown;
+
+export interface NetworkRule {
+  /** name used to toggle the rule, its index by default */
+  name?: string;
+  /** paths with `*` matching any characters, regular expressions are tested against the path and the query */
+  test: string | RegExp | Array<string | RegExp>;
+  /** latency in milliseconds, or the range of a random latency */
+  latency?: number | [number, number];
+  /** bandwidth of the response bodies in bytes per second */
+  bandwidth?: number;
+  /** responds with the status code, 503 by default, to the rate of the requests, all by default */
+  failure?: { rate?: number; status?: number };
+  /** closes the connection of the rate of the requests without a response */
+  drop?: boolean | number;
+  enabled?: boolean;
+}
+
+export interface NetworkOptions {
+  /** the rules can be toggled at runtime with `POST /rspack-dev-server/network?enabled=true` */
+  enabled?: boolean;
+  /** the first matching rule applies */
+  rules: NetworkRule[];
+}
+
+export interface NormalizedNetwork {
+  enabled: boolean;
+  rules: NetworkRule[];
+}
+
+export interface AccessLogOptions {
+  /** writes the entries as NDJSON to the file instead of the logger */
+  file?: string;
+}
+
+export interface NormalizedAccessLog {
+  file: string | undefined;
+}
+
+export interface AccessLogEntry {
+  /** ISO date of the end of the response */
+  time: string;
+  method: string;
+  url: string;
+  status: number;
+  /** milliseconds from the start of the request to the end of the response */
+  duration: number;
+  /** bytes of the response body */
+  bytes: number;
+  /** name of the last middleware of `setupMiddlewares` called for the request */
+  middleware: string | undefined;
+  /** whether the connection was closed before the end of the response */
+  aborted: boolean;
+}
+
+/** a TCP address, or a Unix socket or a Windows named pipe with `ipc` */
+export type ListenTarget =
+  { host?: string; port?: Port } | { ipc: true | string };
+
+export type NormalizedListenTarget =
+  { host: string | undefined; port: Port | undefined } | { ipc: string };
+
+export type ProxyTrafficMatch = 'method' | 'path' | 'body';
+
+export interface ProxyTrafficOptions {
+  /** `record` writes the proxied traffic to the file, `replay` serves it without contacting the target */
+  mode: 'record' | 'replay';
+  /** `.har` files use the HAR format, other files a simple JSON format */
+  file: string;
+  /** parts of the requests which identify the recorded responses, `body` compares the hash of the body */
+  match?: ProxyTrafficMatch[];
+  /** keep the `Cookie`, `Authorization` and `Set-Cookie` headers in the recording, they are left out by default */
+  keepCredentials?: boolean;
+}
+
+export type ProxyPlugin = NonNullable<
+  DevServerProxyConfigArrayItem['plugins']
+>[number];
+
+export type ProxyConfigArrayItem = DevServerProxyConfigArrayItem & {
+  traffic?: ProxyTrafficOptions;
+};
+
+export type ProxyConfigArray = (
+  | ProxyConfigArrayItem
+  | ((
+      req?: IncomingMessage,
+      res?: ServerResponse,
+      next?: (err?: EXPECTED_ANY) => void,
+    ) => ProxyConfigArrayItem)
+)[];
+
 export type ServerType<A extends BasicApplication, S extends BasicServer> =
   | LiteralUnion<'http' | 'https' | 'http2', string>
   | ((serverOptions: ServerOptions, application: A) => S);
@@ -93,7 +226,12 @@ export interface ServerConfiguration<
   S extends BasicServer = HTTPServer,
 > {
   type?: ServerType<A, S>;
-  options?: ServerOptions;
+  options?: ServerOptions & {
+    /** additional host names and IP addresses of the generated certificate */
+    altNames?: string[];
+    /** plain HTTP requests on the port of `https` and `http2` servers are redirected to HTTPS or served, their connections are reset by default */
+    plainHttp?: 'redirect' | 'serve' | false;
+  };
 }
 
 export interface WebSocketServerConfiguration {
@@ -101,13 +239,34 @@ export interface WebSocketServerConfiguration {
   options?: Record<string, EXPECTED_ANY>;
 }
 
-export type ClientConnection = import('ws').WebSocket & { isAlive?: boolean };
+export type ClientConnection = import('ws').WebSocket & {
+  isAlive?: boolean;
+  /** the compiler the client belongs to in multi-compiler setups, its name or index */
+  compiler?: string;
+};
 
 export type WebSocketServer = import('ws').WebSocketServer;
 
+export type CustomMessageListener = (
+  data: EXPECTED_ANY,
+  client: ClientConnection,
+) => void;
+
+export interface WebSocketChannel {
+  on(event: string, listener: CustomMessageListener): void;
+  off(event: string, listener: CustomMessageListener): void;
+  send(event: string, data?: EXPECTED_ANY, clients?: ClientConnection[]): void;
+}
+
 export interface WebSocketServerImplementation {
   implementation: WebSocketServer;
   clients: ClientConnection[];
+  /** for transports over plain HTTP requests, e.g. `sse` */
+  handleRequest?: (
+    req: IncomingMessage,
+    res: ServerResponse,
+    next: () => void,
+  ) => void;
 }
 
 export type Open = DevServerOpenOptions & {
@@ -130,6 +289,100 @@ export type Middleware =
 
 export type OverlayMessageOptions = boolean | ((error: Error) => void);
 
+export type ForwardConsoleLevel = 'error' | 'warn' | 'info' | 'log' | 'debug';
+
+export interface ForwardConsoleOptions {
+  levels?: ForwardConsoleLevel[];
+  unhandledErrors?: boolean;
+}
+
+export type ClientConfiguration = DevServerClient & {
+  forwardConsole?: boolean | ForwardConsoleOptions;
+};
+
+export interface OpenEditorOptions {
+  /** editor command, e.g. `code` or `webstorm`, guessed from the running processes and `EDITOR` by default */
+  editor?: string;
+  /** directories besides the compiler context files can be opened from */
+  allowedRoots?: string[];
+}
+
+export type CompilerState = 'idle' | 'compiling' | 'errored';
+
+export interface CompilerStatus {
+  name: string | undefined;
+  state: CompilerState;
+  /** the following fields describe the last finished compilation */
+  hash: string | undefined;
+  startTime: number | undefined;
+  endTime: number | undefined;
+  time: number | undefined;
+  errors: number;
+  warnings: number;
+}
+
+export interface CompilerAssets {
+  name: string | undefined;
+  hash: string | undefined;
+  assets: { name: string; size: number; url: string }[];
+}
+
+/**
+ * Lifecycle events of the dev server and their payloads, see `Server#on`
+ */
+export interface ServerEvents {
+  /** a compiler starts a compilation */
+  'compile:start': { name: string | undefined };
+  /** the compilation of all compilers is done */
+  'compile:done': {
+    stats: Stats | MultiStats;
+    hash: string | undefined;
+    errors: number;
+    warnings: number;
+    compilers: CompilerStatus[];
+  };
+  'client:connected': {
+    client: ClientConnection;
+    headers: IncomingMessage['headers'];
+  };
+  'client:disconnected': {
+    client: ClientConnection;
+    headers: IncomingMessage['headers'];
+  };
+  /** a watched static file or a file of `watchFiles` changed */
+  'static:changed': { file: string };
+  /** a proxied request failed */
+  'proxy:error': {
+    error: Error;
+    req: IncomingMessage;
+    target: string | undefined;
+  };
+  /** the dev server starts to stop */
+  stopping: undefined;
+}
+
+export type ServerEventListener<T extends keyof ServerEvents> = (
+  event: ServerEvents[T],
+) => void;
+
+export interface StackFrame {
+  /** URL of the generated file */
+  file: string;
+  line: number;
+  column: number;
+  name?: string;
+}
+
+export interface ResolvedStackFrame {
+  /** absolute path of the original file, when it lives on disk */
+  file?: string;
+  /** original source as listed in the source map, e.g. `./src/index.js` */
+  source: string;
+  line: number;
+  column: number;
+  name?: string;
+}
+
 type UseFn = {
   (fn: NextHandleFunction): BasicApplication;
   (fn: HandleFunction): BasicApplication;
@@ -0,0 +1,124 @@
+import type { NextFunction } from 'connect-next';
+import type { ServerMessageData } from './protocol.js';
+import type { Request, Response } from './types.js';
+
+type ProgressPayload = ServerMessageData<'progress-update'>;
+
+export interface ProgressSource {
+  /** whether the first compilation is done */
+  isDone(): boolean;
+  getProgress(): ProgressPayload | undefined;
+  /** returns a function removing the listener */
+  onProgress(listener: (payload: ProgressPayload) => void): () => void;
+  /** calls the listener once the next compilation is done, returns a function removing it */
+  onceDone(listener: () => void): () => void;
+}
+
+/**
+ * HTML page served to navigations until the first compilation is done,
+ * it follows the progress streamed from `progressPath` and reloads itself once the build is ready
+ */
+export function getWaitingPage(progressPath: string): string {
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Compiling…</title>
+    <style>
+      body {
+        margin: 0;
+        display: flex;
+        min-height: 100vh;
+        align-items: center;
+        justify-content: center;
+        font-family: system-ui, sans-serif;
+        color: #333;
+      }
+      main {
+        width: min(480px, 80vw);
+      }
+      progress {
+        width: 100%;
+      }
+      p {
+        color: #777;
+        font-size: 14px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>Compiling…</h1>
+      <progress max="100"></progress>
+      <p></p>
+    </main>
+    <script>
+      const progress = document.querySelector('progress');
+      const message = document.querySelector('p');
+      const source = new EventSource(${JSON.stringify(progressPath)});
+
+      source.addEventListener('progress', (event) => {
+        const data = JSON.parse(event.data);
+
+        progress.value = data.percent;
+        message.textContent = data.percent + '% ' + data.msg;
+      });
+      source.addEventListener('done', () => {
+        source.close();
+        location.reload();
+      });
+    </script>
+  </body>
+</html>
+`;
+}
+
+/**
+ * Streams the progress of the first compilation to the waiting page as server-sent events,
+ * the stream ends with a `done` event
+ */
+export function getProgressMiddleware(
+  source: ProgressSource,
+): (req: Request, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    if (req.method !== 'GET') {
+      next();
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+    });
+
+    // events without data are not dispatched
+    const onDone = () => {
+      res.end('event: done\ndata: ready\n\n');
+    };
+
+    if (source.isDone()) {
+      onDone();
+      return;
+    }
+
+    const onProgress = (payload: ProgressPayload) => {
+      res.write(`event: progress\ndata: ${JSON.stringify(payload)}\n\n`);
+    };
+    const progress = source.getProgress();
+
+    if (progress) {
+      onProgress(progress);
+    }
+
+    const removeProgressListener = source.onProgress(onProgress);
+    const removeDoneListener = source.onceDone(onDone);
+
+    res.on('close', () => {
+      removeProgressListener();
+      removeDoneListener();
+    });
+  };
+}
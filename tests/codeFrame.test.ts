@@ -0,0 +1,38 @@
+import { stripVTControlCharacters } from 'node:util';
+import { createCodeFrame } from '../src/codeFrame';
+
+describe('createCodeFrame', () => {
+  const source = ['import a from "a";', '', 'a();', '\tb();', 'c();'].join(
+    '\n',
+  );
+
+  it('should point at the line and column', () => {
+    expect(stripVTControlCharacters(createCodeFrame(source, 3, 2) as string))
+      .toMatchInlineSnapshot(`
+      "  1 | import a from "a";
+        2 | 
+      > 3 | a();
+          |  ^
+        4 |   b();
+        5 | c();"
+    `);
+  });
+
+  it('should align the column of indented lines', () => {
+    expect(
+      stripVTControlCharacters(
+        createCodeFrame(source, 4, 2, {
+          linesAbove: 0,
+          linesBelow: 0,
+        }) as string,
+      ),
+    ).toMatchInlineSnapshot(`
+      "> 4 |   b();
+          |   ^"
+    `);
+  });
+
+  it('should return undefined for lines out of range', () => {
+    expect(createCodeFrame(source, 6)).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+const fs = require('node:fs');
+const http = require('node:http');
+const os = require('node:os');
+const path = require('node:path');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['access-log'];
+
+describe('accessLog option', () => {
+  let directory;
+  let server;
+  let logs;
+
+  const start = async (accessLog) => {
+    const compiler = rspack(config);
+
+    logs = [];
+    compiler.hooks.infrastructureLog.tap(
+      'access-log-test',
+      (name, type, args) => {
+        if (name === 'rspack-dev-server' && type === 'info') {
+          logs.push(args.map(String).join(' '));
+        }
+
+        return true;
+      },
+    );
+
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        compress: false,
+        static: path.resolve(__dirname, '../fixtures/client-config/static'),
+        accessLog,
+      },
+      compiler,
+    );
+
+    await server.start();
+  };
+
+  // entries are logged once the responses are closed
+  const waitForLog = (predicate) =>
+    expect.poll(() => logs.find(predicate)).toBeTruthy();
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-access-log-'),
+    );
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should log the requests with the middleware which handled them', async () => {
+    await start(true);
+
+    await request({ port, path: '/main.js' });
+    await request({ port, path: '/foo.txt' });
+    await request({ port, path: '/missing.txt' });
+
+    await waitForLog((line) => line.startsWith('GET /missing.txt'));
+
+    expect(logs).toContainEqual(
+      expect.stringMatching(
+        /^GET \/main\.js 200 \d+ms [\d.]+kB @rspack\/dev-middleware$/,
+      ),
+    );
+    expect(logs).toContainEqual(
+      expect.stringMatching(/^GET \/foo\.txt 200 \d+ms 4B serve-static$/),
+    );
+    expect(logs).toContainEqual(
+      expect.stringMatching(/^GET \/missing\.txt 404 \d+ms \d+B -$/),
+    );
+  });
+
+  it('should write the entries as NDJSON to the file', async () => {
+    const file = path.join(directory, 'logs', 'access.ndjson');
+
+    await start({ file });
+
+    await request({ port, path: '/foo.txt?v=1', method: 'HEAD' });
+    await request({ port, path: '/rspack-dev-server/invalidate' });
+    await server.stop();
+    server = undefined;
+
+    const entries = fs
+      .readFileSync(file, 'utf8')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(entries).toEqual([
+      {
+        time: expect.any(String),
+        method: 'HEAD',
+        url: '/foo.txt?v=1',
+        status: 200,
+        duration: expect.any(Number),
+        bytes: 0,
+        middleware: 'serve-static',
+        aborted: false,
+      },
+      expect.objectContaining({
+        method: 'GET',
+        url: '/rspack-dev-server/invalidate',
+        middleware: 'rspack-dev-server-invalidate',
+      }),
+    ]);
+    expect(logs.filter((line) => /^(GET|HEAD) /.test(line))).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const tls = require('node:tls');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const selfsigned = require('selfsigned');
+const config = require('../fixtures/client-config/rspack.config');
+const port = require('../helpers/ports-map')['certificate-reload'];
+
+const generate = (notAfterDate) =>
+  selfsigned.generate([{ name: 'commonName', value: 'localhost' }], {
+    algorithm: 'sha256',
+    notAfterDate,
+  });
+
+const getPeerCertificate = () =>
+  new Promise((resolve, reject) => {
+    const socket = tls.connect(
+      { host: '127.0.0.1', port, rejectUnauthorized: false },
+      () => {
+        const certificate = socket.getPeerX509Certificate();
+
+        socket.destroy();
+        resolve(certificate);
+      },
+    );
+
+    socket.on('error', reject);
+  });
+
+describe('certificate reload', () => {
+  let directory;
+  let keyPath;
+  let certPath;
+  let server;
+  let logs;
+
+  const write = ({ private: key, cert }) => {
+    fs.writeFileSync(keyPath, key);
+    fs.writeFileSync(certPath, cert);
+  };
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-certificate-reload-'),
+    );
+    keyPath = path.join(directory, 'key.pem');
+    certPath = path.join(directory, 'cert.pem');
+    write(await generate(new Date('2030-01-01T00:00:00Z')));
+
+    const compiler = rspack(config);
+
+    logs = [];
+    compiler.hooks.infrastructureLog.tap(
+      'certificate-reload-test',
+      (name, type, args) => {
+        if (name === 'rspack-dev-server') {
+          logs.push({ type, message: args.map(String).join(' ') });
+        }
+
+        return true;
+      },
+    );
+
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        server: {
+          type: 'https',
+          options: { key: keyPath, cert: certPath },
+        },
+      },
+      compiler,
+    );
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should serve the new certificate once the files change', async () => {
+    const rotated = await generate(new Date('2031-06-01T00:00:00Z'));
+
+    expect((await getPeerCertificate()).validTo).toContain('2030');
+
+    write(rotated);
+
+    await expect
+      .poll(() => logs.map(({ message }) => message))
+      .toContain(
+        'SSL certificate reloaded, valid until 2031-06-01T00:00:00.000Z',
+      );
+    expect((await getPeerCertificate()).validTo).toContain('2031');
+  });
+
+  it('should keep the certificate when the new one is invalid', async () => {
+    fs.writeFileSync(
+      certPath,
+      (await generate(new Date('2031-06-01T00:00:00Z'))).cert,
+    );
+
+    await expect
+      .poll(() => logs.filter(({ type }) => type === 'error'))
+      .toEqual([
+        {
+          type: 'error',
+          message: expect.stringContaining(
+            'Failed to reload the SSL certificate',
+          ),
+        },
+      ]);
+    expect((await getPeerCertificate()).validTo).toContain('2030');
+  });
+});
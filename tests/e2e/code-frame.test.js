@@ -0,0 +1,205 @@
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { stripVTControlCharacters } = require('node:util');
+const WebSocket = require('ws');
+const { rspack, WebpackError } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const HTMLGeneratorPlugin = require('../helpers/html-generator-plugin');
+const port = require('../helpers/ports-map')['code-frame'];
+const runBrowser = require('../helpers/run-browser');
+
+// reports a problem at the second line of each module, without a code frame in the message
+class ProblemPlugin {
+  apply(compiler) {
+    compiler.hooks.compilation.tap('ProblemPlugin', (compilation) => {
+      compilation.hooks.finishModules.tap('ProblemPlugin', (modules) => {
+        for (const module of modules) {
+          const error = new WebpackError('Custom problem');
+
+          error.module = module;
+          error.loc = { start: { line: 2, column: 9 } };
+          compilation.errors.push(error);
+        }
+      });
+    });
+  }
+}
+
+describe('code frames', () => {
+  let context;
+  let server;
+  let ws;
+
+  beforeEach(() => {
+    context = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-code-frame-'),
+    );
+    fs.writeFileSync(
+      path.join(context, 'index.js'),
+      'const a = 1;\nconsole.log(a);\n',
+    );
+
+    // files changed around the start of the watcher trigger another compilation
+    const past = new Date(Date.now() - 60_000);
+
+    fs.utimesSync(path.join(context, 'index.js'), past, past);
+  });
+
+  afterEach(async () => {
+    ws?.close();
+    await server.stop();
+    fs.rmSync(context, { recursive: true, force: true });
+  });
+
+  it('should add the code frames of the problems and read the changed files again', async () => {
+    const compiler = rspack({
+      mode: 'development',
+      context,
+      entry: './index.js',
+      stats: 'none',
+      plugins: [new ProblemPlugin()],
+      infrastructureLogging: { level: 'error' },
+    });
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+    await server.start();
+    const frames = [];
+
+    ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+    ws.on('message', (data) => {
+      const { type, data: errors } = JSON.parse(data);
+
+      if (type === 'errors') {
+        frames.push(stripVTControlCharacters(errors[0].codeFrame));
+      }
+    });
+
+    await expect.poll(() => frames.length).toBe(1);
+    expect(frames[0]).toContain('> 2 | console.log(a);');
+
+    fs.writeFileSync(
+      path.join(context, 'index.js'),
+      'const b = 2;\nconsole.log(b);\n',
+    );
+
+    await expect.poll(() => frames.length, { timeout: 5000 }).toBe(2);
+    expect(frames[1]).toContain('> 2 | console.log(b);');
+  });
+
+  it('should drop the stats of a build superseded while its code frames are read', async () => {
+    const compiler = rspack({
+      mode: 'development',
+      context,
+      entry: './index.js',
+      stats: 'none',
+      plugins: [new ProblemPlugin()],
+      infrastructureLogging: { level: 'error' },
+    });
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+    await server.start();
+    const messages = [];
+
+    ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+    ws.on('message', (data) => {
+      const { type, data: payload } = JSON.parse(data);
+
+      if (['invalid', 'hash', 'errors'].includes(type)) {
+        messages.push(
+          type === 'errors'
+            ? stripVTControlCharacters(payload[0].codeFrame)
+            : type,
+        );
+      }
+    });
+
+    await expect.poll(() => messages.length).toBe(2);
+
+    const { stat } = fs.promises;
+    const statSpy = rs
+      .spyOn(fs.promises, 'stat')
+      .mockImplementation(async (...args) => {
+        await new Promise((resolve) => setTimeout(resolve, 300));
+        return stat(...args);
+      });
+    let invalidated = false;
+
+    // the next build starts while the code frames of the first one are read
+    server.on('compile:done', () => {
+      if (!invalidated) {
+        invalidated = true;
+        server.invalidate();
+      }
+    });
+
+    try {
+      messages.length = 0;
+      fs.writeFileSync(
+        path.join(context, 'index.js'),
+        'const c = 3;\nconsole.log(c);\n',
+      );
+
+      await expect
+        .poll(() => messages.filter((item) => item === 'hash').length, {
+          timeout: 5000,
+        })
+        .toBe(1);
+      await new Promise((resolve) => setTimeout(resolve, 500));
+
+      const lastInvalid = messages.lastIndexOf('invalid');
+
+      expect(messages.filter((item) => item === 'hash')).toHaveLength(1);
+      expect(messages.indexOf('hash')).toBeGreaterThan(lastInvalid);
+      expect(messages.at(-1)).toContain('> 2 | console.log(c);');
+    } finally {
+      statSpy.mockRestore();
+    }
+  });
+
+  it('should show the code frames in the overlay', async () => {
+    const compiler = rspack({
+      mode: 'development',
+      context,
+      entry: './index.js',
+      stats: 'none',
+      plugins: [new ProblemPlugin(), new HTMLGeneratorPlugin()],
+      infrastructureLogging: { level: 'error' },
+    });
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+    await server.start();
+
+    const { page, browser } = await runBrowser();
+
+    try {
+      await page.goto(`http://127.0.0.1:${port}/`, {
+        waitUntil: 'networkidle0',
+      });
+
+      await expect
+        .poll(
+          () =>
+            page.evaluate(
+              () =>
+                document.querySelector('#rspack-dev-server-client-overlay')
+                  ?.contentDocument?.body.innerText ?? '',
+            ),
+          { timeout: 5000 },
+        )
+        .toContain('> 2 | console.log(a);');
+    } finally {
+      await browser.close();
+    }
+  });
+});
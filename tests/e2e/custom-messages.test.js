@@ -0,0 +1,94 @@
+const { once } = require('node:events');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const port = require('../helpers/ports-map')['custom-messages'];
+
+describe('custom messages', () => {
+  let compiler;
+  let server;
+  let ws;
+
+  beforeEach(async () => {
+    compiler = rspack(config);
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+
+    await server.start();
+
+    ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+
+    await once(ws, 'open');
+  });
+
+  afterEach(async () => {
+    ws.close();
+    await server.stop();
+  });
+
+  it('should dispatch custom messages from the client to listeners', async () => {
+    const received = new Promise((resolve) => {
+      server.ws.on('mock:toggle', (data, client) => {
+        resolve({ data, client });
+      });
+    });
+
+    ws.send(
+      JSON.stringify({
+        type: 'custom',
+        data: { event: 'mock:toggle', data: { enabled: true } },
+      }),
+    );
+
+    const { data, client } = await received;
+
+    expect(data).toEqual({ enabled: true });
+    expect(server.webSocketServer.clients).toContain(client);
+  });
+
+  it('should stop dispatching to removed listeners', async () => {
+    const calls = [];
+    const listener = (data) => {
+      calls.push(data);
+    };
+    const done = new Promise((resolve) => {
+      server.ws.on('done', resolve);
+    });
+
+    server.ws.on('tokens:reload', listener);
+    server.ws.off('tokens:reload', listener);
+
+    ws.send(
+      JSON.stringify({ type: 'custom', data: { event: 'tokens:reload' } }),
+    );
+    ws.send(JSON.stringify({ type: 'custom', data: { event: 'done' } }));
+
+    await done;
+
+    expect(calls).toEqual([]);
+  });
+
+  it('should send custom messages to the clients', async () => {
+    const received = new Promise((resolve) => {
+      ws.on('message', (data) => {
+        const message = JSON.parse(data);
+
+        if (message.type === 'custom') {
+          resolve(message.data);
+        }
+      });
+    });
+
+    server.ws.send('tokens:reload', { file: 'tokens.json' });
+
+    expect(await received).toEqual({
+      event: 'tokens:reload',
+      data: { file: 'tokens.json' },
+    });
+  });
+});
@@ -0,0 +1,193 @@
+const { once } = require('node:events');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const browserConfig = require('../fixtures/forward-console-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['forward-console'];
+const runBrowser = require('../helpers/run-browser');
+
+const createServer = async (client, compilerConfig = config) => {
+  const compiler = rspack(compilerConfig);
+  const logs = [];
+
+  compiler.hooks.infrastructureLog.tap(
+    'forward-console-test',
+    (name, type, args) => {
+      if (
+        name === 'rspack-dev-server' &&
+        String(args[0]).includes('[browser]')
+      ) {
+        logs.push({ type, message: args.join(' ') });
+      }
+    },
+  );
+
+  const server = new Server({ host: '127.0.0.1', port, client }, compiler);
+
+  await server.start();
+
+  return { server, logs };
+};
+
+const connect = async (port) => {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+    headers: {
+      host: `127.0.0.1:${port}`,
+      origin: `http://127.0.0.1:${port}`,
+      'user-agent': 'test-agent/1.0',
+    },
+  });
+
+  await once(ws, 'open');
+
+  return ws;
+};
+
+const waitFor = (predicate) =>
+  new Promise((resolve) => {
+    const interval = setInterval(() => {
+      if (predicate()) {
+        clearInterval(interval);
+        resolve();
+      }
+    }, 50);
+  });
+
+describe('client.forwardConsole option', () => {
+  let server;
+  let ws;
+
+  afterEach(async () => {
+    ws?.close();
+    await server.stop();
+  });
+
+  it('should print forwarded console messages with the page URL and user agent', async () => {
+    let logs;
+
+    ({ server, logs } = await createServer({ forwardConsole: true }));
+
+    ws = await connect(port);
+    ws.send(
+      JSON.stringify({
+        type: 'console',
+        data: {
+          level: 'warn',
+          args: ['Something', 'happened'],
+          url: `http://127.0.0.1:${port}/`,
+        },
+      }),
+    );
+
+    await waitFor(() => logs.length > 0);
+
+    expect(logs).toEqual([
+      {
+        type: 'warn',
+        message: `[browser] Something happened\n  (page: http://127.0.0.1:${port}/, user agent: test-agent/1.0)`,
+      },
+    ]);
+  });
+
+  it('should pass the normalized options to the client entry', async () => {
+    ({ server } = await createServer({
+      forwardConsole: { levels: ['error'] },
+    }));
+    const response = await request({ port, path: '/main.js' });
+
+    expect(response.text).toContain(
+      `forward-console=${encodeURIComponent(
+        JSON.stringify({ levels: ['error'], unhandledErrors: true }),
+      )}`,
+    );
+  });
+
+  it('should ignore console messages when disabled', async () => {
+    let logs;
+
+    ({ server, logs } = await createServer({}));
+    const received = new Promise((resolve) => {
+      server.ws.on('done', resolve);
+    });
+
+    ws = await connect(port);
+    ws.send(
+      JSON.stringify({
+        type: 'console',
+        data: { level: 'error', args: ['Ignored'] },
+      }),
+    );
+    ws.send(JSON.stringify({ type: 'custom', data: { event: 'done' } }));
+
+    await received;
+
+    expect(logs).toEqual([]);
+  });
+});
+
+describe('client.forwardConsole option in the browser', () => {
+  let server;
+  let page;
+  let browser;
+
+  beforeEach(async () => {
+    ({ page, browser } = await runBrowser());
+  });
+
+  afterEach(async () => {
+    await browser.close();
+    await server.stop();
+  });
+
+  it('should forward the warnings, errors and uncaught errors of the page', async () => {
+    let logs;
+
+    ({ server, logs } = await createServer(
+      { forwardConsole: true },
+      browserConfig,
+    ));
+
+    await page.goto(`http://127.0.0.1:${port}/`, {
+      waitUntil: 'networkidle0',
+    });
+
+    await expect
+      .poll(() => logs.map(({ message }) => message.split('\n')[0]))
+      .toEqual(
+        expect.arrayContaining([
+          '[browser] Something happened {"count":1}',
+          expect.stringMatching(/^\[browser\] Uncaught Error: Thrown/),
+          expect.stringMatching(
+            /^\[browser\] Uncaught \(in promise\) Error: Rejected/,
+          ),
+        ]),
+      );
+    expect(logs.find(({ message }) => message.includes('Something'))).toEqual({
+      type: 'warn',
+      message: expect.stringContaining(
+        `(page: http://127.0.0.1:${port}/, user agent: `,
+      ),
+    });
+    expect(logs.some(({ message }) => message.includes('Logged'))).toBe(false);
+  });
+
+  it('should only forward the configured levels', async () => {
+    let logs;
+
+    ({ server, logs } = await createServer(
+      { forwardConsole: { levels: ['log'], unhandledErrors: false } },
+      browserConfig,
+    ));
+
+    await page.goto(`http://127.0.0.1:${port}/`, {
+      waitUntil: 'networkidle0',
+    });
+
+    await expect
+      .poll(() => logs.map(({ message }) => message.split('\n')[0]))
+      .toContain('[browser] Logged');
+    expect(logs.map(({ type }) => type)).toEqual(['log']);
+  });
+});
@@ -0,0 +1,95 @@
+const http = require('node:http');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['json-api'];
+
+describe('JSON API', () => {
+  let server;
+
+  beforeEach(async () => {
+    const compiler = rspack(config);
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+
+    await server.start();
+
+    // wait for the first compilation
+    await request({ port, path: '/main.js' });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+  });
+
+  it('should return the status of the compilers', async () => {
+    const response = await request({
+      port,
+      path: '/rspack-dev-server/api/status',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe(
+      'application/json; charset=utf-8',
+    );
+    expect(JSON.parse(response.text)).toEqual({
+      compilers: [
+        {
+          state: 'idle',
+          hash: expect.any(String),
+          startTime: expect.any(Number),
+          endTime: expect.any(Number),
+          time: expect.any(Number),
+          errors: 0,
+          warnings: 0,
+        },
+      ],
+    });
+  });
+
+  it('should return the assets of the compilers', async () => {
+    const response = await request({
+      port,
+      path: '/rspack-dev-server/api/assets',
+    });
+
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.text).compilers[0].assets).toEqual(
+      expect.arrayContaining([
+        { name: 'main.js', size: expect.any(Number), url: '/main.js' },
+      ]),
+    );
+  });
+
+  it('should respond after the next compilation when waiting', async () => {
+    const { compilers } = JSON.parse(
+      (await request({ port, path: '/rspack-dev-server/api/status' })).text,
+    );
+    let resolved = false;
+    const waiting = request({
+      port,
+      path: '/rspack-dev-server/api/status?wait',
+    }).then((response) => {
+      resolved = true;
+      return response;
+    });
+
+    await new Promise((resolve) => {
+      setTimeout(resolve, 200);
+    });
+
+    expect(resolved).toBe(false);
+
+    server.invalidate();
+
+    const response = await waiting;
+    const [status] = JSON.parse(response.text).compilers;
+
+    expect(response.status).toBe(200);
+    expect(status.state).toBe('idle');
+    expect(status.endTime).toBeGreaterThan(compilers[0].endTime);
+  });
+});
@@ -0,0 +1,111 @@
+const fs = require('node:fs');
+const http = require('node:http');
+const os = require('node:os');
+const path = require('node:path');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['last-successful-build'];
+
+describe('devMiddleware.serveLastSuccessfulBuild option', () => {
+  let context;
+  let compiler;
+  let server;
+
+  const nextDone = () =>
+    new Promise((resolve) => {
+      compiler.hooks.done.tap('last-successful-build-test', resolve);
+    });
+
+  const update = async (content) => {
+    const done = nextDone();
+
+    fs.writeFileSync(path.join(context, 'index.js'), content);
+
+    const stats = await done;
+
+    // wait for the dev middleware to become valid again
+    await request({ port, path: '/main.js' });
+
+    return stats;
+  };
+
+  const start = async (devMiddleware) => {
+    context = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-last-successful-build-'),
+    );
+    fs.writeFileSync(path.join(context, 'index.js'), 'console.log("first");');
+
+    compiler = rspack({
+      mode: 'development',
+      context,
+      entry: './index.js',
+      stats: 'none',
+      output: { path: '/' },
+      infrastructureLogging: {
+        level: 'info',
+        stream: { write: () => {} },
+      },
+    });
+    server = new Server(
+      { host: '127.0.0.1', port, hot: false, devMiddleware },
+      compiler,
+    );
+
+    await server.start();
+
+    await request({ port, path: '/main.js' });
+  };
+
+  afterEach(async () => {
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+
+    fs.rmSync(context, { recursive: true, force: true });
+  });
+
+  it('should serve the last successful build while the build has errors', async () => {
+    await start({ serveLastSuccessfulBuild: true });
+
+    const stats = await update('console.log("broken";');
+
+    expect(stats.hasErrors()).toBe(true);
+
+    const response = await request({ port, path: '/main.js' });
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('console.log("first")');
+    expect(response.text).not.toContain('Module parse failed');
+
+    await update('console.log("fixed");');
+
+    expect((await request({ port, path: '/main.js' })).text).toContain(
+      'console.log("fixed")',
+    );
+  });
+
+  it('should keep reporting the errors', async () => {
+    await start({ serveLastSuccessfulBuild: true });
+    await update('console.log("broken";');
+
+    const response = await request({
+      port,
+      path: '/rspack-dev-server/api/status',
+    });
+
+    expect(JSON.parse(response.text).compilers[0]).toMatchObject({
+      state: 'errored',
+      errors: 1,
+    });
+  });
+
+  it('should serve the failing build by default', async () => {
+    await start({});
+    await update('console.log("broken";');
+
+    const response = await request({ port, path: '/main.js' });
+
+    expect(response.text).not.toContain('console.log("first")');
+  });
+});
@@ -0,0 +1,184 @@
+const fs = require('node:fs');
+const { once } = require('node:events');
+const os = require('node:os');
+const path = require('node:path');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const [port, closedPort] = require('../helpers/ports-map')['lifecycle-events'];
+
+const waitForEvent = (server, event) =>
+  new Promise((resolve) => {
+    const listener = (payload) => {
+      server.off(event, listener);
+      resolve(payload);
+    };
+
+    server.on(event, listener);
+  });
+
+describe('lifecycle events', () => {
+  let server;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  it('should emit the compilation events', async () => {
+    server = new Server({ host: '127.0.0.1', port }, rspack(config));
+
+    const start = waitForEvent(server, 'compile:start');
+    const done = waitForEvent(server, 'compile:done');
+
+    await server.start();
+
+    expect(await start).toEqual({ name: undefined });
+    expect(await done).toEqual({
+      stats: server.stats,
+      hash: server.stats.hash,
+      errors: 0,
+      warnings: 0,
+      compilers: [
+        expect.objectContaining({ state: 'idle', hash: server.stats.hash }),
+      ],
+    });
+  });
+
+  it('should emit the client events', async () => {
+    server = new Server({ host: '127.0.0.1', port }, rspack(config));
+
+    await server.start();
+
+    const connected = waitForEvent(server, 'client:connected');
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+        'user-agent': 'lifecycle-events-test',
+      },
+    });
+
+    const connectedEvent = await connected;
+
+    await once(ws, 'open');
+
+    expect(connectedEvent.headers['user-agent']).toBe('lifecycle-events-test');
+    expect(server.webSocketServer.clients).toContain(connectedEvent.client);
+
+    const disconnected = waitForEvent(server, 'client:disconnected');
+
+    ws.close();
+
+    const disconnectedEvent = await disconnected;
+
+    expect(disconnectedEvent.client).toBe(connectedEvent.client);
+    expect(disconnectedEvent.headers['user-agent']).toBe(
+      'lifecycle-events-test',
+    );
+  });
+
+  it('should emit the "static:changed" event', async () => {
+    const directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-lifecycle-events-'),
+    );
+    const file = path.join(directory, 'index.html');
+
+    fs.writeFileSync(file, '<h1>before</h1>');
+
+    try {
+      server = new Server(
+        { host: '127.0.0.1', port, watchFiles: file },
+        rspack(config),
+      );
+
+      await server.start();
+
+      // wait for the watcher to be ready
+      await new Promise((resolve) => {
+        setTimeout(resolve, 500);
+      });
+
+      const changed = waitForEvent(server, 'static:changed');
+
+      fs.writeFileSync(file, '<h1>after</h1>');
+
+      expect(await changed).toEqual({ file });
+    } finally {
+      await server.stop();
+      server = undefined;
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('should emit the "proxy:error" event', async () => {
+    // nothing listens on the port of the target
+    const target = `http://127.0.0.1:${closedPort}`;
+
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        proxy: [{ context: ['/api'], target }],
+      },
+      rspack(config),
+    );
+
+    await server.start();
+
+    const proxyError = waitForEvent(server, 'proxy:error');
+    const response = await request({
+      port,
+      path: '/api/users',
+    });
+    const event = await proxyError;
+
+    expect(response.status).toBe(504);
+    expect(event.error.code).toBe('ECONNREFUSED');
+    expect(event.req.url).toBe('/api/users');
+    expect(event.target).toContain(target);
+  });
+
+  it('should emit the "stopping" event', async () => {
+    server = new Server({ host: '127.0.0.1', port }, rspack(config));
+
+    await server.start();
+
+    const stopping = waitForEvent(server, 'stopping');
+
+    await server.stop();
+    server = undefined;
+
+    expect(await stopping).toBeUndefined();
+  });
+
+  it('should log the errors of listeners', async () => {
+    const compiler = rspack(config);
+    const errors = [];
+
+    compiler.hooks.infrastructureLog.tap(
+      'lifecycle-events-test',
+      (name, type, args) => {
+        if (name === 'rspack-dev-server' && type === 'error') {
+          errors.push(args.join(' '));
+        }
+      },
+    );
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+    server.on('compile:done', () => {
+      throw new Error('listener failed');
+    });
+
+    const done = waitForEvent(server, 'compile:done');
+
+    await server.start();
+    await done;
+
+    expect(errors).toEqual([
+      'Error in listener for the "compile:done" event: listener failed',
+    ]);
+  });
+});
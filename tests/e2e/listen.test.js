@@ -0,0 +1,175 @@
+const { once } = require('node:events');
+const fs = require('node:fs');
+const http = require('node:http');
+const net = require('node:net');
+const os = require('node:os');
+const path = require('node:path');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const [port, secondPort] = require('../helpers/ports-map').listen;
+
+describe('listen', () => {
+  let directory;
+  let server;
+  let logs;
+  let consoleSpy;
+
+  const start = async (listen, options = {}) => {
+    const compiler = rspack(config);
+
+    compiler.hooks.infrastructureLog.tap('listen-test', (name, type, args) => {
+      if (name === 'rspack-dev-server') {
+        logs.push(args.map(String).join(' '));
+      }
+
+      return true;
+    });
+
+    server = new Server({ listen, ...options }, compiler);
+
+    await server.start();
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rspack-dev-server-'));
+    logs = [];
+    consoleSpy = rs.spyOn(global.console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    // the next test listens on the same ports, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+    consoleSpy.mockRestore();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should serve the app on a Unix socket and a TCP port', async () => {
+    const socketPath = path.join(directory, 'app.sock');
+
+    await start([{ ipc: socketPath }, { host: '127.0.0.1', port }]);
+
+    expect(server.servers).toHaveLength(2);
+    expect(server.servers[0]).toBe(server.server);
+    expect(server.servers[0].address()).toBe(socketPath);
+
+    const fromSocket = await request({
+      path: '/main.js',
+      transportOptions: { socketPath },
+    });
+    const fromPort = await request({ port, path: '/main.js' });
+
+    expect(fromSocket.status).toBe(200);
+    expect(fromPort.status).toBe(200);
+    expect(fromSocket.text).toBe(fromPort.text);
+
+    expect(logs).toContain(`Project is running at: "${socketPath}"`);
+    expect(consoleSpy.mock.calls.join('\n')).toContain(
+      `http://127.0.0.1:${port}/`,
+    );
+  });
+
+  it('should share the WebSocket server between the TCP targets', async () => {
+    await start([
+      { host: '127.0.0.1', port },
+      { host: '127.0.0.1', port: secondPort },
+    ]);
+
+    const output = consoleSpy.mock.calls.join('\n');
+
+    expect(output).toContain(`http://127.0.0.1:${port}/`);
+    expect(output).toContain(`http://127.0.0.1:${secondPort}/`);
+
+    const ws = new WebSocket(`ws://127.0.0.1:${secondPort}/ws`, {
+      headers: {
+        host: `127.0.0.1:${secondPort}`,
+        origin: `http://127.0.0.1:${secondPort}`,
+      },
+    });
+
+    try {
+      const [data] = await once(ws, 'message');
+
+      expect(JSON.parse(data).type).toBe('protocol');
+    } finally {
+      ws.close();
+    }
+
+    const response = await request({ port: secondPort, path: '/main.js' });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should allow the host names of the targets', async () => {
+    // resolved to a local address, without being an IP address or `localhost`
+    const hostname = os.hostname();
+
+    await start([
+      { host: '127.0.0.1', port },
+      { host: hostname, port: secondPort },
+    ]);
+
+    const named = await request({
+      port: secondPort,
+      path: '/main.js',
+      headers: { host: `${hostname}:${secondPort}` },
+    });
+    const other = await request({
+      port: secondPort,
+      path: '/main.js',
+      headers: { host: `other.test:${secondPort}` },
+    });
+
+    expect(named.status).toBe(200);
+    expect(other.status).toBe(403);
+  });
+
+  it('should close the started servers when a target fails', async () => {
+    const blocker = net.createServer();
+
+    blocker.listen(secondPort, '127.0.0.1');
+    await once(blocker, 'listening');
+
+    try {
+      await expect(
+        start([
+          { host: '127.0.0.1', port },
+          { host: '127.0.0.1', port: secondPort },
+        ]),
+      ).rejects.toMatchObject({ code: 'EADDRINUSE' });
+
+      expect(server.servers).toEqual([]);
+      expect(server.server).toBeUndefined();
+    } finally {
+      blocker.close();
+    }
+  });
+
+  it('should throw the errors of the servers once they listen', async () => {
+    await start([
+      { host: '127.0.0.1', port },
+      { host: '127.0.0.1', port: secondPort },
+    ]);
+
+    for (const item of server.servers) {
+      expect(item.listenerCount('error')).toBe(0);
+      expect(() => item.emit('error', new Error('Server failure'))).toThrow(
+        'Server failure',
+      );
+    }
+  });
+
+  it('should warn about the options replaced by listen', async () => {
+    await start([{ host: '127.0.0.1', port }], {
+      host: '0.0.0.0',
+      port: 8080,
+    });
+
+    expect(logs).toContain(
+      'The "host" and "port" options are ignored when "listen" is set.',
+    );
+  });
+});
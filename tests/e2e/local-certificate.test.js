@@ -0,0 +1,253 @@
+const { X509Certificate, createPrivateKey } = require('node:crypto');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const ipaddr = require('ipaddr.js');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['local-certificate'];
+
+describe('local certificate authority', () => {
+  let directory;
+  let server;
+  let findCacheDirSpy;
+  let findCertificateAuthorityDirSpy;
+
+  const start = async (type = 'https', options = {}) => {
+    server = new Server(
+      { host: '127.0.0.1', port, server: { type, options } },
+      rspack(config),
+    );
+
+    await server.start();
+  };
+
+  const stop = async () => {
+    await server.stop();
+    server = undefined;
+  };
+
+  const readCertificate = (name) =>
+    new X509Certificate(fs.readFileSync(path.join(directory, name)));
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-certificate-'),
+    );
+    findCacheDirSpy = rs
+      .spyOn(Server, 'findCacheDir')
+      .mockReturnValue(directory);
+    findCertificateAuthorityDirSpy = rs
+      .spyOn(Server, 'findCertificateAuthorityDir')
+      .mockReturnValue(path.join(directory, 'ca'));
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    findCacheDirSpy.mockRestore();
+    findCertificateAuthorityDirSpy.mockRestore();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should serve a certificate signed by the local CA', async () => {
+    await start();
+    const { cert, certPath } = await Server.getCertificateAuthority();
+
+    expect(certPath).toBe(path.join(directory, 'ca', 'rootCA.pem'));
+
+    const response = await request({
+      protocol: 'https:',
+      port,
+      path: '/rspack-dev-server/ca.pem',
+      transportOptions: { ca: cert },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('application/x-pem-file');
+    expect(response.text).toBe(cert);
+
+    const ca = new X509Certificate(cert);
+    const leaf = readCertificate('server.pem');
+
+    expect(ca.ca).toBe(true);
+    expect(leaf.checkIssued(ca)).toBe(true);
+    expect(leaf.subjectAltName).toContain('IP Address:127.0.0.1');
+    // short-lived
+    expect(new Date(leaf.validTo) - new Date(leaf.validFrom)).toBeLessThan(
+      1000 * 60 * 60 * 24 * 8,
+    );
+  });
+
+  it('should constrain the CA to local names and private addresses', async () => {
+    await start('https', { altNames: ['100.64.0.1'] });
+
+    const { subjectAltName } = readCertificate('server.pem');
+
+    // the OID of the critical name constraints extension
+    expect(
+      readCertificate('ca/rootCA.pem').raw.includes(
+        Buffer.from([0x06, 0x03, 0x55, 0x1d, 0x1e, 0x01, 0x01, 0xff]),
+      ),
+    ).toBe(true);
+
+    for (const name of [
+      'DNS:localhost.localdomain',
+      'DNS:lvh.me',
+      'DNS:*.lvh.me',
+      'IP Address:100.64.0.1',
+    ]) {
+      expect(subjectAltName).toContain(name);
+    }
+  });
+
+  it('should fail for the configured names which the CA cannot sign', async () => {
+    await expect(start('https', { altNames: ['example.com'] })).rejects.toThrow(
+      `The local CA can't sign a certificate for "example.com"`,
+    );
+    expect(fs.existsSync(path.join(directory, 'server.pem'))).toBe(false);
+  });
+
+  it('should keep the CA and the certificate across restarts', async () => {
+    await start();
+
+    const ca = readCertificate('ca/rootCA.pem');
+    const leaf = readCertificate('server.pem');
+
+    await stop();
+    await start('http2');
+
+    expect(readCertificate('ca/rootCA.pem').fingerprint256).toBe(
+      ca.fingerprint256,
+    );
+    expect(readCertificate('server.pem').fingerprint256).toBe(
+      leaf.fingerprint256,
+    );
+  });
+
+  it('should issue a new certificate when it is not signed by the CA', async () => {
+    await start();
+    await stop();
+
+    fs.rmSync(path.join(directory, 'ca'), { recursive: true });
+
+    await start();
+
+    expect(
+      readCertificate('server.pem').checkIssued(
+        readCertificate('ca/rootCA.pem'),
+      ),
+    ).toBe(true);
+  });
+
+  it('should create the CA again when its files are corrupt or do not match', async () => {
+    const certPath = path.join(directory, 'ca', 'rootCA.pem');
+    const keyPath = path.join(directory, 'ca', 'rootCA-key.pem');
+    const { cert } = await Server.getCertificateAuthority();
+    const key = fs.readFileSync(keyPath, 'utf8');
+
+    fs.writeFileSync(certPath, cert.slice(0, 100));
+
+    const recreated = await Server.getCertificateAuthority();
+
+    expect(recreated.cert).not.toBe(cert);
+
+    // the key of the first CA with the certificate of the second one
+    fs.writeFileSync(keyPath, key);
+
+    const mismatched = await Server.getCertificateAuthority();
+
+    expect(mismatched.cert).not.toBe(recreated.cert);
+    expect(
+      new X509Certificate(mismatched.cert).checkPrivateKey(
+        createPrivateKey(fs.readFileSync(keyPath, 'utf8')),
+      ),
+    ).toBe(true);
+  });
+
+  it('should create a single CA for concurrent dev servers', async () => {
+    const authorities = await Promise.all([
+      Server.getCertificateAuthority(),
+      Server.getCertificateAuthority(),
+      Server.getCertificateAuthority(),
+    ]);
+
+    expect(new Set(authorities.map(({ cert }) => cert)).size).toBe(1);
+    expect(fs.readdirSync(path.join(directory, 'ca')).sort()).toEqual([
+      'rootCA-key.pem',
+      'rootCA.pem',
+    ]);
+  });
+
+  it('should not expose the CA for configured certificates', async () => {
+    await start();
+    const certificate = fs.readFileSync(path.join(directory, 'server.pem'));
+
+    await stop();
+
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        server: {
+          type: 'https',
+          options: { key: certificate, cert: certificate },
+        },
+      },
+      rspack(config),
+    );
+    await server.start();
+
+    const response = await request({
+      protocol: 'https:',
+      port,
+      path: '/rspack-dev-server/ca.pem',
+      rejectUnauthorized: false,
+    });
+
+    expect(response.headers['content-type']).not.toBe('application/x-pem-file');
+    expect(response.text).not.toContain('BEGIN CERTIFICATE');
+  });
+
+  it('should cover the network addresses and the alternative names', async () => {
+    await start('https', { altNames: ['my-app.test', '192.168.99.1'] });
+
+    const { subjectAltName } = readCertificate('server.pem');
+    const networkIPv4 = Server.findIp('v4', false);
+
+    expect(subjectAltName).toContain('DNS:my-app.test');
+    expect(subjectAltName).toContain('IP Address:192.168.99.1');
+
+    // public addresses are left out by the name constraints of the CA
+    if (
+      networkIPv4 &&
+      ['private', 'carrierGradeNat'].includes(ipaddr.parse(networkIPv4).range())
+    ) {
+      expect(subjectAltName).toContain(`IP Address:${networkIPv4}`);
+    }
+
+    expect(server.options.server.options.altNames).toBeUndefined();
+  });
+
+  it('should issue a new certificate when the names change', async () => {
+    await start('https', { altNames: ['one.test'] });
+
+    const { fingerprint256 } = readCertificate('server.pem');
+
+    await stop();
+    await start('https', { altNames: ['one.test'] });
+
+    expect(readCertificate('server.pem').fingerprint256).toBe(fingerprint256);
+
+    await stop();
+    await start('https', { altNames: ['two.test'] });
+
+    const leaf = readCertificate('server.pem');
+
+    expect(leaf.fingerprint256).not.toBe(fingerprint256);
+    expect(leaf.subjectAltName).toContain('DNS:two.test');
+    expect(leaf.subjectAltName).not.toContain('DNS:one.test');
+  });
+});
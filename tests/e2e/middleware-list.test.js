@@ -0,0 +1,85 @@
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/simple-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['middleware-list'];
+
+describe('setupMiddlewares helpers', () => {
+  let server;
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+  });
+
+  it('should modify the middleware chain by name and log it', async () => {
+    const compiler = rspack(config);
+    const logs = [];
+
+    compiler.hooks.infrastructureLog.tap(
+      'middleware-list-test',
+      (name, type, args) => {
+        if (name === 'rspack-dev-server' && type === 'debug') {
+          logs.push(args.join(' '));
+        }
+      },
+    );
+
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        historyApiFallback: true,
+        setupMiddlewares: (middlewares) =>
+          middlewares
+            .insertBefore('connect-history-api-fallback', {
+              name: 'hello',
+              path: '/hello',
+              middleware: (req, res) => {
+                res.end('hello');
+              },
+            })
+            .remove('options-middleware'),
+      },
+      compiler,
+    );
+
+    await server.start();
+
+    const response = await request({
+      port,
+      path: '/hello',
+      headers: { accept: 'text/html' },
+    });
+
+    expect(response.text).toBe('hello');
+
+    const [chain] = logs.filter((log) => log.startsWith('Middlewares:'));
+    const lines = chain.split('\n').slice(1);
+
+    expect(chain).toMatch(/^\d+\. hello \(\/hello\)$/m);
+
+    expect(
+      lines.findIndex((line) => line.endsWith('hello (/hello)')),
+    ).toBeLessThan(
+      lines.findIndex((line) => line.includes('connect-history-api-fallback')),
+    );
+    expect(chain).not.toContain('options-middleware');
+  });
+
+  it('should throw for unknown middleware names', async () => {
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        setupMiddlewares: (middlewares) =>
+          middlewares.insertAfter('unknown', () => {}),
+      },
+      rspack(config),
+    );
+
+    await expect(server.start()).rejects.toThrow(
+      /^No middleware named "unknown", available middlewares: host-header-check, /,
+    );
+  });
+});
@@ -0,0 +1,101 @@
+const { once } = require('node:events');
+const http = require('node:http');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const WebSocket = require('ws');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['middleware-mode'];
+
+describe('middlewareMode option', () => {
+  let compiler;
+  let server;
+  let hostServer;
+
+  beforeEach(async () => {
+    compiler = rspack(config);
+    server = new Server({ middlewareMode: true }, compiler);
+
+    await server.start();
+
+    hostServer = http.createServer((req, res) => {
+      server.app(req, res, () => {
+        res.statusCode = 418;
+        res.end('host application');
+      });
+    });
+    hostServer.on('upgrade', (req, socket, head) => {
+      server.handleUpgrade(req, socket, head);
+    });
+    hostServer.listen(port, '127.0.0.1');
+
+    await once(hostServer, 'listening');
+  });
+
+  afterEach(async () => {
+    await server.stop();
+
+    const closed = once(hostServer, 'close');
+    hostServer.close();
+    await closed;
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+  });
+
+  it('should not create its own server', () => {
+    expect(server.server).toBeUndefined();
+  });
+
+  it('should serve the bundle with the client entry through the host server', async () => {
+    const response = await request({ port, path: '/main.js' });
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('protocol=auto%3A');
+  });
+
+  it('should fall through to the host application', async () => {
+    const response = await request({ port, path: '/not-found' });
+
+    expect(response.status).toBe(418);
+    expect(response.text).toBe('host application');
+
+    const optionsResponse = await request({
+      port,
+      path: '/not-found',
+      method: 'OPTIONS',
+    });
+
+    expect(optionsResponse.status).toBe(418);
+  });
+
+  it('should accept web socket connections through the upgrade handler', async () => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+    const messages = [];
+
+    ws.on('message', (data) => {
+      messages.push(JSON.parse(data.toString()).type);
+    });
+
+    await once(ws, 'open');
+    await request({ port, path: '/main.js' });
+    await new Promise((resolve) => {
+      const interval = setInterval(() => {
+        if (messages.includes('ok')) {
+          clearInterval(interval);
+          resolve();
+        }
+      }, 100);
+    });
+
+    ws.close();
+
+    expect(messages).toEqual(
+      expect.arrayContaining(['hot', 'liveReload', 'hash', 'ok']),
+    );
+  });
+});
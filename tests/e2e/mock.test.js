@@ -0,0 +1,286 @@
+const fs = require('node:fs');
+const http = require('node:http');
+const { once } = require('node:events');
+const os = require('node:os');
+const path = require('node:path');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const [port, backendPort] = require('../helpers/ports-map').mock;
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const waitFor = async (condition, timeout = 5000) => {
+  const start = Date.now();
+
+  while (!(await condition())) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out');
+    }
+
+    await delay(50);
+  }
+};
+
+describe('mock option', () => {
+  let directory;
+  let server;
+
+  const write = (file, content) => {
+    const filePath = path.join(directory, file);
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const start = async (options = {}) => {
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        mock: { directory },
+        ...options,
+      },
+      rspack(config),
+    );
+
+    await server.start();
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-mock-'),
+    );
+
+    write('api/users/index.json', '[{"id":1}]');
+    write(
+      'api/users/[id].cjs',
+      `exports.GET = (req, res, { params, query }) => ({ id: params.id, fields: query.get('fields') });
+exports.DELETE = (req, res) => { res.statusCode = 204; res.end(); };`,
+    );
+    write(
+      'api/users/me.mjs',
+      `export default (req) => \`\${req.method} me\`;
+export const status = 201;`,
+    );
+    write(
+      'api/echo.mjs',
+      'export const POST = (req, res, { body }) => ({ received: body });',
+    );
+    write('api/_helpers.cjs', 'exports.GET = () => "private";');
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should serve JSON fixtures', async () => {
+    await start();
+
+    const response = await request({ port, path: '/api/users' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe(
+      'application/json; charset=utf-8',
+    );
+    expect(JSON.parse(response.text)).toEqual([{ id: 1 }]);
+  });
+
+  it('should pass the parameters and the query to handlers', async () => {
+    await start();
+
+    const response = await request({
+      port,
+      path: '/api/users/42?fields=name',
+    });
+
+    expect(JSON.parse(response.text)).toEqual({ id: '42', fields: 'name' });
+  });
+
+  it('should call the handler of the request method', async () => {
+    await start();
+
+    expect(
+      (await request({ port, path: '/api/users/42', method: 'DELETE' })).status,
+    ).toBe(204);
+
+    // no handler for the method, the request falls through
+    expect(
+      (await request({ port, path: '/api/users/42', method: 'PUT' })).status,
+    ).toBe(404);
+  });
+
+  it('should parse JSON request bodies', async () => {
+    await start();
+
+    const response = await fetch(`http://127.0.0.1:${port}/api/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'rspack' }),
+    });
+
+    expect(await response.json()).toEqual({ received: { name: 'rspack' } });
+  });
+
+  it('should prefer static segments to parameters', async () => {
+    await start();
+
+    const response = await request({ port, path: '/api/users/me' });
+
+    expect(response.status).toBe(201);
+    expect(response.text).toBe('GET me');
+  });
+
+  it('should ignore files starting with an underscore', async () => {
+    await start();
+
+    expect((await request({ port, path: '/api/_helpers' })).status).toBe(404);
+  });
+
+  it('should override the status and the latency', async () => {
+    await start({ mock: { directory, delay: 200 } });
+
+    const startTime = Date.now();
+    const response = await request({ port, path: '/api/users' });
+
+    expect(Date.now() - startTime).toBeGreaterThanOrEqual(190);
+
+    const overridden = await request({
+      port,
+      path: '/api/users',
+      headers: { 'x-mock-status': '503', 'x-mock-delay': '0' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(overridden.status).toBe(503);
+  });
+
+  it('should reload changed handlers without a restart', async () => {
+    await start();
+
+    const staticChanged = rs.fn();
+
+    server.on('static:changed', staticChanged);
+
+    expect((await request({ port, path: '/api/users/me' })).text).toBe(
+      'GET me',
+    );
+
+    write('api/users/me.mjs', 'export default () => "changed";');
+    write('api/posts.json', '[]');
+
+    await waitFor(
+      async () =>
+        (await request({ port, path: '/api/users/me' })).text === 'changed',
+    );
+
+    expect((await request({ port, path: '/api/posts' })).status).toBe(200);
+    // the pages are not reloaded
+    expect(staticChanged).not.toHaveBeenCalled();
+  });
+
+  it('should load TypeScript handlers and reload them when their helpers change', async () => {
+    write(
+      'api/users/[id]/posts.ts',
+      `import { list } from '../../_posts';
+
+export const GET = (req: unknown, res: unknown, { params }: { params: Record<string, string> }) =>
+  list(params.id);`,
+    );
+    write(
+      'api/_posts.ts',
+      'export const list = (id: string): string[] => [`${id}:first`];',
+    );
+
+    await start();
+
+    expect(
+      JSON.parse((await request({ port, path: '/api/users/1/posts' })).text),
+    ).toEqual(['1:first']);
+
+    write(
+      'api/_posts.ts',
+      'export const list = (id: string): string[] => [`${id}:changed`];',
+    );
+
+    await waitFor(
+      async () =>
+        (await request({ port, path: '/api/users/1/posts' })).text ===
+        '["1:changed"]',
+    );
+  });
+
+  it('should answer 400 to invalid JSON bodies', async () => {
+    await start();
+
+    const error = rs.spyOn(server.logger, 'error').mockImplementation(() => {});
+    const response = await fetch(`http://127.0.0.1:${port}/api/echo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":',
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.text()).toMatch(/^Invalid request body: /);
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('should leave the paths with a malformed encoding to the next middlewares', async () => {
+    await start();
+
+    const error = rs.spyOn(server.logger, 'error').mockImplementation(() => {});
+
+    expect((await request({ port, path: '/api/%' })).status).toBe(404);
+    expect(error).not.toHaveBeenCalled();
+  });
+
+  it('should log the errors of handlers', async () => {
+    write(
+      'api/broken.mjs',
+      'export default () => { throw new Error("oops"); };',
+    );
+
+    await start();
+
+    const error = rs.spyOn(server.logger, 'error').mockImplementation(() => {});
+    const response = await request({ port, path: '/api/broken' });
+
+    expect(response.status).toBe(500);
+    expect(error).toHaveBeenCalledWith('Error in mock "api/broken.mjs": oops');
+  });
+
+  it('should shadow the proxied backend', async () => {
+    const backend = http.createServer((req, res) => {
+      res.end(`backend ${req.url}`);
+    });
+
+    backend.listen(backendPort, '127.0.0.1');
+    await once(backend, 'listening');
+
+    try {
+      await start({
+        proxy: [
+          {
+            context: ['/api'],
+            target: `http://127.0.0.1:${backendPort}`,
+          },
+        ],
+      });
+
+      expect((await request({ port, path: '/api/users' })).text).toBe(
+        '[{"id":1}]',
+      );
+      expect((await request({ port, path: '/api/orders' })).text).toBe(
+        'backend /api/orders',
+      );
+    } finally {
+      backend.close();
+    }
+  });
+});
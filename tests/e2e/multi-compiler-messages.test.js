@@ -0,0 +1,182 @@
+const fs = require('node:fs');
+const http = require('node:http');
+const os = require('node:os');
+const path = require('node:path');
+const { once } = require('node:events');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['multi-compiler-messages'];
+
+const waitFor = (predicate) =>
+  new Promise((resolve) => {
+    const interval = setInterval(() => {
+      if (predicate()) {
+        clearInterval(interval);
+        resolve();
+      }
+    }, 50);
+  });
+
+const createConfig = (context, name) => ({
+  name,
+  target: 'web',
+  mode: 'development',
+  context,
+  entry: `./${name}.js`,
+  stats: 'none',
+  output: {
+    path: '/',
+    filename: `${name}-[name].js`,
+  },
+  infrastructureLogging: {
+    level: 'info',
+    stream: { write: () => {} },
+  },
+});
+
+describe('multi-compiler messages', () => {
+  let context;
+  let compiler;
+  let server;
+  let clients;
+
+  const connect = async (query = '') => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws${query}`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+    const messages = [];
+
+    ws.on('message', (data) => {
+      messages.push(JSON.parse(data));
+    });
+    clients.push(ws);
+
+    await once(ws, 'open');
+    // the stats of the last compilation are sent on connection
+    await waitFor(() => messages.some(({ type }) => type === 'ok'));
+
+    return messages;
+  };
+
+  beforeEach(async () => {
+    context = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-multi-compiler-'),
+    );
+    fs.writeFileSync(path.join(context, 'one.js'), 'console.log("one");');
+    fs.writeFileSync(path.join(context, 'two.js'), 'console.log("two");');
+
+    // files changed around the start of the watcher trigger another compilation
+    const past = new Date(Date.now() - 60_000);
+
+    for (const file of ['one.js', 'two.js']) {
+      fs.utimesSync(path.join(context, file), past, past);
+    }
+
+    compiler = rspack([
+      createConfig(context, 'one'),
+      createConfig(context, 'two'),
+    ]);
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+    clients = [];
+
+    await server.start();
+
+    await request({ port, path: '/one-main.js' });
+  });
+
+  afterEach(async () => {
+    for (const ws of clients) {
+      ws.close();
+    }
+
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+
+    fs.rmSync(context, { recursive: true, force: true });
+  });
+
+  it('should declare the compiler in the client entry', async () => {
+    const one = await request({ port, path: '/one-main.js' });
+    const two = await request({ port, path: '/two-main.js' });
+
+    expect(one.text).toContain('compiler=one');
+    expect(two.text).toContain('compiler=two');
+  });
+
+  it('should send the stats of the declared compiler on connection', async () => {
+    const [oneStats, twoStats] = server.stats.stats;
+
+    expect(
+      (await connect('?compiler=one')).find(({ type }) => type === 'hash'),
+    ).toEqual({ type: 'hash', data: oneStats.hash });
+    expect(
+      (await connect('?compiler=two')).find(({ type }) => type === 'hash'),
+    ).toEqual({ type: 'hash', data: twoStats.hash });
+    expect((await connect()).find(({ type }) => type === 'hash')).toEqual({
+      type: 'hash',
+      data: server.stats.hash,
+    });
+  });
+
+  it('should only send the messages of the rebuilt compiler', async () => {
+    const one = await connect('?compiler=one');
+    const two = await connect('?compiler=two');
+    const all = await connect();
+
+    for (const messages of [one, two, all]) {
+      messages.length = 0;
+    }
+
+    const done = new Promise((resolve) => {
+      compiler.hooks.done.tap('multi-compiler-messages-test', resolve);
+    });
+
+    fs.writeFileSync(path.join(context, 'one.js'), 'console.log("changed");');
+
+    const stats = await done;
+
+    await waitFor(
+      () =>
+        one.some(({ type }) => type === 'ok') &&
+        all.some(({ type }) => type === 'ok'),
+    );
+
+    expect(one.map(({ type }) => type)).toEqual(['invalid', 'hash', 'ok']);
+    expect(one[1].data).toBe(stats.stats[0].hash);
+    expect(all.map(({ type }) => type)).toEqual(['invalid', 'hash', 'ok']);
+    expect(all[1].data).toBe(stats.hash);
+    expect(two).toEqual([]);
+  });
+
+  it('should only send one invalid message to the clients of all compilers', async () => {
+    const one = await connect('?compiler=one');
+    const two = await connect('?compiler=two');
+    const all = await connect();
+
+    for (const messages of [one, two, all]) {
+      messages.length = 0;
+    }
+
+    const done = new Promise((resolve) => {
+      compiler.hooks.done.tap('multi-compiler-messages-test', resolve);
+    });
+
+    server.invalidate();
+
+    await done;
+    await waitFor(() => all.some(({ type }) => type === 'ok'));
+
+    const count = (messages) =>
+      messages.filter(({ type }) => type === 'invalid').length;
+
+    expect(count(one)).toBe(1);
+    expect(count(two)).toBe(1);
+    expect(count(all)).toBe(1);
+  });
+});
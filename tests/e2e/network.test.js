@@ -0,0 +1,184 @@
+const fs = require('node:fs');
+const http = require('node:http');
+const os = require('node:os');
+const path = require('node:path');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map').network;
+
+describe('network option', () => {
+  let directory;
+  let server;
+
+  const start = async (network) => {
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        compress: false,
+        static: directory,
+        network,
+      },
+      rspack(config),
+    );
+
+    await server.start();
+  };
+
+  const timed = async (options) => {
+    const startTime = Date.now();
+    const response = await request({ port, ...options });
+
+    return { response, elapsed: Date.now() - startTime };
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-network-'),
+    );
+    fs.writeFileSync(path.join(directory, 'large.txt'), 'x'.repeat(2000));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should delay the matching requests', async () => {
+    await start([{ test: '/main.js', latency: 300 }]);
+
+    const { response, elapsed } = await timed({ path: '/main.js' });
+
+    expect(response.status).toBe(200);
+    expect(elapsed).toBeGreaterThanOrEqual(290);
+  });
+
+  it('should fail the matching requests with the status code', async () => {
+    await start([
+      { test: ['/api/*', /\.txt\?fail$/], failure: { status: 500 } },
+    ]);
+
+    expect((await request({ port, path: '/api/users' })).status).toBe(500);
+    expect((await request({ port, path: '/large.txt?fail' })).status).toBe(500);
+    expect((await request({ port, path: '/large.txt' })).status).toBe(200);
+  });
+
+  it('should drop the connection of the matching requests', async () => {
+    await start([{ test: '/main.js', drop: true }]);
+
+    await expect(request({ port, path: '/main.js' })).rejects.toThrow(
+      'socket hang up',
+    );
+  });
+
+  it('should throttle the bandwidth of the responses', async () => {
+    await start([{ test: '*.txt', bandwidth: 5000 }]);
+
+    const { response, elapsed } = await timed({ path: '/large.txt' });
+
+    expect(response.text).toBe('x'.repeat(2000));
+    expect(elapsed).toBeGreaterThanOrEqual(390);
+  });
+
+  it('should toggle the rules with the built-in route', async () => {
+    await start({
+      rules: [
+        { name: 'api', test: '/api/*', failure: { status: 500 } },
+        { test: /\.txt$/, failure: { status: 503 } },
+      ],
+    });
+
+    const state = await request({ port, path: '/rspack-dev-server/network' });
+
+    expect(state.headers['content-type']).toBe(
+      'application/json; charset=utf-8',
+    );
+    expect(JSON.parse(state.text)).toEqual({
+      enabled: true,
+      rules: [
+        { name: 'api', test: ['/api/*'], failure: { status: 500 } },
+        { name: '1', test: ['/\\.txt$/'], failure: { status: 503 } },
+      ],
+    });
+
+    const disabled = await request({
+      port,
+      method: 'POST',
+      path: '/rspack-dev-server/network?enabled=false',
+    });
+
+    expect(JSON.parse(disabled.text).enabled).toBe(false);
+    expect((await request({ port, path: '/api/users' })).status).toBe(404);
+
+    await request({
+      port,
+      method: 'POST',
+      path: '/rspack-dev-server/network?enabled=true',
+    });
+    await request({
+      port,
+      method: 'POST',
+      path: '/rspack-dev-server/network?rule=api&enabled=false',
+    });
+
+    expect((await request({ port, path: '/api/users' })).status).toBe(404);
+    expect((await request({ port, path: '/large.txt' })).status).toBe(503);
+
+    const unknown = await request({
+      port,
+      method: 'POST',
+      path: '/rspack-dev-server/network?rule=unknown&enabled=false',
+    });
+
+    expect(unknown.status).toBe(404);
+  });
+
+  it('should not toggle the rules with GET requests', async () => {
+    await start({ rules: [{ test: '/api/*', failure: { status: 500 } }] });
+
+    const state = await request({
+      port,
+      path: '/rspack-dev-server/network?enabled=false',
+    });
+
+    expect(JSON.parse(state.text).enabled).toBe(true);
+    expect((await request({ port, path: '/api/users' })).status).toBe(500);
+  });
+
+  it('should not toggle the rules from other sites', async () => {
+    await start({ rules: [{ test: '/api/*', failure: { status: 500 } }] });
+
+    const crossSite = await request({
+      port,
+      method: 'POST',
+      path: '/rspack-dev-server/network?enabled=false',
+      headers: { origin: 'http://evil.example' },
+    });
+
+    expect(crossSite.status).toBe(403);
+
+    const noOrigin = await request({
+      port,
+      method: 'POST',
+      path: '/rspack-dev-server/network?enabled=false',
+      headers: { 'sec-fetch-site': 'cross-site' },
+    });
+
+    expect(noOrigin.status).toBe(403);
+    expect((await request({ port, path: '/api/users' })).status).toBe(500);
+
+    const sameOrigin = await request({
+      port,
+      method: 'POST',
+      path: '/rspack-dev-server/network?enabled=false',
+      headers: { origin: `http://127.0.0.1:${port}` },
+    });
+
+    expect(sameOrigin.status).toBe(200);
+    expect((await request({ port, path: '/api/users' })).status).toBe(404);
+  });
+});
@@ -0,0 +1,97 @@
+const fs = require('node:fs');
+const http = require('node:http');
+const os = require('node:os');
+const path = require('node:path');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['open-editor'];
+
+const editorOutput = path.join(
+  os.tmpdir(),
+  'rspack-dev-server-open-editor.json',
+);
+
+describe('open editor route', () => {
+  let server;
+
+  beforeEach(async () => {
+    process.env.OPEN_EDITOR_OUTPUT = editorOutput;
+    fs.rmSync(editorOutput, { force: true });
+
+    const compiler = rspack(config);
+
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        openEditor: {
+          editor: `node ${path.resolve(__dirname, '../fixtures/open-editor/editor.js')}`,
+          allowedRoots: [path.resolve(__dirname, '../fixtures/open-editor')],
+        },
+      },
+      compiler,
+    );
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+    fs.rmSync(editorOutput, { force: true });
+    delete process.env.OPEN_EDITOR_OUTPUT;
+  });
+
+  const openEditor = (params) =>
+    request({
+      port,
+      path: `/rspack-dev-server/open-editor?${new URLSearchParams(params)}`,
+    });
+
+  const waitForEditor = () =>
+    new Promise((resolve) => {
+      const interval = setInterval(() => {
+        if (fs.existsSync(editorOutput)) {
+          clearInterval(interval);
+          resolve(JSON.parse(fs.readFileSync(editorOutput, 'utf8')));
+        }
+      }, 50);
+    });
+
+  it('should open files of a module identifier with the configured editor', async () => {
+    const file = path.resolve(__dirname, '../fixtures/client-config/foo.js');
+    const response = await openEditor({
+      fileName: `javascript/auto|${file}`,
+      line: '3',
+      column: '1',
+    });
+
+    expect(response.status).toBe(200);
+    expect(await waitForEditor()).toEqual([file]);
+  });
+
+  it('should open files from the allowed roots', async () => {
+    const file = path.resolve(__dirname, '../fixtures/open-editor/editor.js');
+    const response = await openEditor({ fileName: file });
+
+    expect(response.status).toBe(200);
+    expect(await waitForEditor()).toEqual([file]);
+  });
+
+  it('should reject files outside of the project', async () => {
+    for (const fileName of [
+      path.resolve(__dirname, '../helpers/http-request.js'),
+      '../../helpers/http-request.js',
+      path.resolve(__dirname, '../fixtures/client-config/missing.js'),
+    ]) {
+      const response = await openEditor({ fileName });
+
+      expect(response.status).toBe(403);
+    }
+
+    expect(fs.existsSync(editorOutput)).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+const { once } = require('node:events');
+const fs = require('node:fs');
+const http = require('node:http');
+const os = require('node:os');
+const path = require('node:path');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['plain-http'];
+
+describe('plain HTTP on the TLS port', () => {
+  let directory;
+  let server;
+  let findCacheDirSpy;
+
+  const start = async (type, plainHttp) => {
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        server: { type, options: { plainHttp } },
+      },
+      rspack(config),
+    );
+
+    await server.start();
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-plain-http-'),
+    );
+    findCacheDirSpy = rs
+      .spyOn(Server, 'findCacheDir')
+      .mockReturnValue(directory);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+    findCacheDirSpy.mockRestore();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it.each(['https', 'http2'])(
+    'should redirect plain HTTP requests to HTTPS with "%s"',
+    async (type) => {
+      await start(type, 'redirect');
+
+      const response = await request({ port, path: '/main.js?v=1' });
+
+      expect(response.status).toBe(307);
+      expect(response.headers.location).toBe(
+        `https://127.0.0.1:${port}/main.js?v=1`,
+      );
+
+      const secure = await request({
+        protocol: 'https:',
+        port,
+        path: '/main.js',
+        rejectUnauthorized: false,
+      });
+
+      expect(secure.status).toBe(200);
+    },
+  );
+
+  it('should not redirect to unknown hosts', async () => {
+    await start('https', 'redirect');
+
+    const response = await request({
+      port,
+      path: '/',
+      headers: { host: 'evil.example.com' },
+    });
+
+    expect(response.status).toBe(403);
+    expect(response.headers.location).toBeUndefined();
+  });
+
+  it('should serve both protocols with "serve"', async () => {
+    await start('http2', 'serve');
+
+    const plain = await request({ port, path: '/main.js' });
+    const secure = await request({
+      protocol: 'https:',
+      port,
+      path: '/main.js',
+      rejectUnauthorized: false,
+    });
+
+    expect(plain.status).toBe(200);
+    expect(plain.text).toBe(secure.text);
+
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+
+    try {
+      const [data] = await once(ws, 'message');
+
+      expect(JSON.parse(data).type).toBe('protocol');
+    } finally {
+      ws.close();
+    }
+  });
+
+  it('should only accept TLS connections by default', async () => {
+    await start('https');
+
+    await expect(request({ port, path: '/' })).rejects.toThrow();
+  });
+
+  it('should only accept TLS connections with `false`', async () => {
+    await start('https', false);
+
+    await expect(request({ port, path: '/' })).rejects.toThrow();
+  });
+});
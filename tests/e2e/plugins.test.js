@@ -0,0 +1,219 @@
+const http = require('node:http');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/simple-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map').plugins;
+
+describe('plugins option', () => {
+  let server;
+
+  const start = async (plugins, compiler = rspack(config), options = {}) => {
+    server = new Server(
+      { host: '127.0.0.1', port, plugins, ...options },
+      compiler,
+    );
+
+    await server.start();
+  };
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+  });
+
+  it('should call the hooks of the plugins in order', async () => {
+    const calls = [];
+    const createPlugin = (name, enforce) => ({
+      name,
+      enforce,
+      configureServer(devServer) {
+        expect(devServer).toBe(server);
+        calls.push(`${name}:configureServer`);
+      },
+      configureWebSocket(webSocketServer, devServer) {
+        expect(webSocketServer).toBe(devServer.webSocketServer);
+        calls.push(`${name}:configureWebSocket`);
+      },
+    });
+
+    await start([
+      createPlugin('post', 'post'),
+      createPlugin('normal-1'),
+      createPlugin('pre', 'pre'),
+      createPlugin('normal-2'),
+    ]);
+
+    expect(calls).toEqual([
+      'pre:configureServer',
+      'normal-1:configureServer',
+      'normal-2:configureServer',
+      'post:configureServer',
+      'pre:configureWebSocket',
+      'normal-1:configureWebSocket',
+      'normal-2:configureWebSocket',
+      'post:configureWebSocket',
+    ]);
+  });
+
+  it('should run the middlewares of "configureServer" before the built-in ones', async () => {
+    await start([
+      {
+        name: 'auth',
+        configureServer(devServer) {
+          devServer.app.use((req, res, next) => {
+            if (req.headers.authorization === 'secret') {
+              next();
+              return;
+            }
+
+            res.statusCode = 401;
+            res.end('Unauthorized');
+          });
+        },
+      },
+    ]);
+
+    expect((await request({ port, path: '/main.js' })).status).toBe(401);
+    expect(
+      (
+        await request({
+          port,
+          path: '/main.js',
+          headers: { authorization: 'secret' },
+        })
+      ).status,
+    ).toBe(200);
+  });
+
+  it('should call "onCompileDone" with the stats', async () => {
+    let onCompileDone;
+    const compileDone = new Promise((resolve) => {
+      onCompileDone = resolve;
+    });
+
+    await start([
+      {
+        name: 'telemetry',
+        onCompileDone: (...args) => onCompileDone(args),
+      },
+    ]);
+
+    const [stats, devServer] = await compileDone;
+
+    expect(stats.hash).toBe(server.stats.hash);
+    expect(devServer).toBe(server);
+  });
+
+  it('should transform the HTML files with "transformIndexHtml"', async () => {
+    await start([
+      {
+        name: 'second',
+        enforce: 'post',
+        transformIndexHtml: async (html) =>
+          html.replace('</head>', '<meta name="second" />\n  </head>'),
+      },
+      {
+        name: 'first',
+        transformIndexHtml: (html, { filename }) =>
+          html.replace(
+            '</head>',
+            `<meta name="first" content="${filename}" />\n  </head>`,
+          ),
+      },
+    ]);
+
+    const response = await request({ port, path: '/' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(response.headers['content-length']).toBe(
+      String(Buffer.byteLength(response.text)),
+    );
+    expect(response.text).toContain(
+      '<meta name="first" content="/index.html" />\n  <meta name="second" />\n  </head>',
+    );
+
+    const script = await request({ port, path: '/main.js' });
+
+    expect(script.status).toBe(200);
+    expect(script.headers['content-type']).toBe(
+      'text/javascript; charset=utf-8',
+    );
+  });
+
+  it('should send the transformed HTML with the headers of the dev middleware', async () => {
+    await start(
+      [
+        {
+          name: 'meta',
+          transformIndexHtml: (html) =>
+            html.replace('</head>', '<meta name="meta" />\n  </head>'),
+        },
+      ],
+      rspack(config),
+      {
+        devMiddleware: {
+          headers: (req) => ({ 'X-Requested-Path': req.url }),
+          etag: 'weak',
+          lastModified: true,
+        },
+      },
+    );
+
+    const response = await request({ port, path: '/' });
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain('<meta name="meta" />');
+    expect(response.headers['x-requested-path']).toBe('/');
+    expect(response.headers.etag).toMatch(/^W\/"/);
+    expect(response.headers['last-modified']).toBeDefined();
+
+    const cached = await request({
+      port,
+      path: '/',
+      headers: { 'If-None-Match': response.headers.etag },
+    });
+
+    expect(cached.status).toBe(304);
+    expect(cached.text).toBe('');
+    expect(cached.headers['x-requested-path']).toBe('/');
+  });
+
+  it('should call "onStop" and log the errors of the hooks', async () => {
+    const compiler = rspack(config);
+    const errors = [];
+    const onStop = rstest.fn();
+
+    compiler.hooks.infrastructureLog.tap('plugins-test', (name, type, args) => {
+      if (name === 'rspack-dev-server' && type === 'error') {
+        errors.push(args.join(' '));
+      }
+    });
+
+    await start(
+      [
+        {
+          name: 'broken',
+          onStop() {
+            throw new Error('failed to stop');
+          },
+        },
+        { name: 'cleanup', onStop },
+      ],
+      compiler,
+    );
+
+    const stoppingServer = server;
+
+    await server.stop();
+    server = undefined;
+
+    expect(onStop).toHaveBeenCalledWith(stoppingServer);
+    expect(errors).toEqual([
+      'Error in the "onStop" hook of the "broken" plugin: failed to stop',
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+const { once } = require('node:events');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const {
+  RspackDevServer: Server,
+  PROTOCOL_VERSION,
+} = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map').protocol;
+const runBrowser = require('../helpers/run-browser');
+
+const waitFor = (predicate) =>
+  new Promise((resolve) => {
+    const interval = setInterval(() => {
+      if (predicate()) {
+        clearInterval(interval);
+        resolve();
+      }
+    }, 50);
+  });
+
+describe('message protocol', () => {
+  let server;
+  let ws;
+  let messages;
+  let warnings;
+
+  beforeEach(async () => {
+    const compiler = rspack(config);
+
+    warnings = [];
+    compiler.hooks.infrastructureLog.tap(
+      'protocol-test',
+      (name, type, args) => {
+        if (name === 'rspack-dev-server' && type === 'warn') {
+          warnings.push(args.join(' '));
+        }
+      },
+    );
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+
+    await server.start();
+
+    ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+    messages = [];
+    ws.on('message', (data) => {
+      messages.push(JSON.parse(data));
+    });
+
+    await once(ws, 'open');
+  });
+
+  afterEach(async () => {
+    ws.close();
+    await server.stop();
+  });
+
+  it('should send the protocol version first', async () => {
+    await waitFor(() => messages.length > 0);
+
+    expect(messages[0]).toEqual({
+      type: 'protocol',
+      data: { version: PROTOCOL_VERSION },
+    });
+  });
+
+  it('should warn about clients using another protocol version', async () => {
+    ws.send(JSON.stringify({ type: 'protocol', data: { version: 0 } }));
+
+    await waitFor(() => warnings.length > 0);
+
+    expect(warnings[0]).toContain(
+      `A client using the message protocol version 0 connected, but the dev server uses version ${PROTOCOL_VERSION}.`,
+    );
+  });
+
+  it('should not warn about clients using the same protocol version', async () => {
+    const done = new Promise((resolve) => {
+      server.ws.on('done', resolve);
+    });
+
+    ws.send(
+      JSON.stringify({
+        type: 'protocol',
+        data: { version: PROTOCOL_VERSION },
+      }),
+    );
+    ws.send(JSON.stringify({ type: 'custom', data: { event: 'done' } }));
+
+    await done;
+
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe('message protocol in the browser', () => {
+  let server;
+  let page;
+  let browser;
+  let warnings;
+
+  beforeEach(async () => {
+    const compiler = rspack(config);
+
+    warnings = [];
+    compiler.hooks.infrastructureLog.tap(
+      'protocol-test',
+      (name, type, args) => {
+        if (name === 'rspack-dev-server' && type === 'warn') {
+          warnings.push(args.join(' '));
+        }
+      },
+    );
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+
+    await server.start();
+
+    ({ page, browser } = await runBrowser());
+  });
+
+  afterEach(async () => {
+    await browser.close();
+    await server.stop();
+  });
+
+  it('should warn in the page and in the terminal about a cached client', async () => {
+    const { text } = await request({ port, path: '/main.js' });
+    // the bundle of an older version of the client
+    const cachedBundle = text.replace(
+      'const PROTOCOL_VERSION = 1;',
+      'const PROTOCOL_VERSION = 0;',
+    );
+    const consoleMessages = [];
+
+    expect(cachedBundle).not.toBe(text);
+
+    page.on('console', (message) => {
+      consoleMessages.push(message.text());
+    });
+    // takes precedence over the handler of `runBrowser`, which continues the requests
+    page.on('request', (interceptedRequest) => {
+      if (new URL(interceptedRequest.url()).pathname === '/main.js') {
+        interceptedRequest.respond(
+          {
+            status: 200,
+            contentType: 'application/javascript',
+            body: cachedBundle,
+          },
+          20,
+        );
+      }
+    });
+
+    await page.goto(`http://127.0.0.1:${port}/`, {
+      waitUntil: 'networkidle0',
+    });
+
+    await expect
+      .poll(() => consoleMessages)
+      .toContainEqual(
+        expect.stringContaining(
+          `The dev server uses the message protocol version ${PROTOCOL_VERSION}, but this page runs a client using version 0.`,
+        ),
+      );
+    await expect
+      .poll(() => warnings)
+      .toContainEqual(
+        expect.stringContaining(
+          'A client using the message protocol version 0 connected',
+        ),
+      );
+  });
+});
@@ -0,0 +1,198 @@
+const { once } = require('node:events');
+const http = require('node:http');
+const WebSocket = require('ws');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const request = require('../helpers/http-request');
+const [port, closedPort] = require('../helpers/ports-map')['proxy-error'];
+const runBrowser = require('../helpers/run-browser');
+
+// nothing listens on the port of the target
+const target = `http://127.0.0.1:${closedPort}`;
+
+const getOverlayText = (page) =>
+  page.evaluate(
+    () =>
+      document.querySelector('#rspack-dev-server-client-overlay')
+        ?.contentDocument?.body.innerText ?? '',
+  );
+
+describe('proxy errors', () => {
+  let server;
+
+  const start = async (proxyOptions = {}, client = {}) => {
+    server = new Server(
+      {
+        host: '127.0.0.1',
+        port,
+        client,
+        proxy: [{ context: ['/api'], target, ...proxyOptions }],
+      },
+      rspack(config),
+    );
+
+    await server.start();
+  };
+
+  afterEach(async () => {
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+  });
+
+  it('should describe the failure in an HTML page for navigations', async () => {
+    await start();
+
+    const response = await request({
+      port,
+      path: '/api/users?page=2',
+      headers: { 'sec-fetch-mode': 'navigate', accept: 'text/html' },
+    });
+
+    expect(response.status).toBe(504);
+    expect(response.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(response.text).toContain('GET /api/users?page=2');
+    expect(response.text).toContain(target);
+    expect(response.text).toContain('ECONNREFUSED');
+  });
+
+  it('should answer other requests with plain text', async () => {
+    await start();
+
+    const response = await request({ port, path: '/api/users' });
+
+    expect(response.status).toBe(504);
+    expect(response.headers['content-type']).toBe('text/plain; charset=utf-8');
+    expect(response.text).toBe(
+      `Error occurred while trying to proxy: 127.0.0.1:${port}/api/users`,
+    );
+  });
+
+  it('should send the "proxy-error" message to the clients', async () => {
+    await start();
+
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/ws`, {
+      headers: {
+        host: `127.0.0.1:${port}`,
+        origin: `http://127.0.0.1:${port}`,
+      },
+    });
+    const messages = [];
+
+    ws.on('message', (data) => {
+      messages.push(JSON.parse(data));
+    });
+    await once(ws, 'open');
+
+    await request({ port, path: '/api/users', method: 'POST' });
+
+    try {
+      await expect
+        .poll(() => messages.filter(({ type }) => type === 'proxy-error'))
+        .toEqual([
+          {
+            type: 'proxy-error',
+            data: {
+              method: 'POST',
+              path: '/api/users',
+              target: expect.stringContaining(target),
+              code: 'ECONNREFUSED',
+              message: expect.any(String),
+            },
+          },
+        ]);
+    } finally {
+      ws.close();
+    }
+  });
+
+  it('should keep the error handler of the proxy options', async () => {
+    await start({
+      on: {
+        error: (_error, _req, res) => {
+          res.writeHead(418);
+          res.end('custom');
+        },
+      },
+    });
+
+    const response = await request({
+      port,
+      path: '/api/users',
+      headers: { 'sec-fetch-mode': 'navigate' },
+    });
+
+    expect(response.status).toBe(418);
+    expect(response.text).toBe('custom');
+  });
+
+  it('should show the error page for the navigations of the browser', async () => {
+    await start();
+
+    const { page, browser } = await runBrowser();
+
+    try {
+      const response = await page.goto(`http://127.0.0.1:${port}/api/users`, {
+        waitUntil: 'networkidle0',
+      });
+      const text = await page.evaluate(() => document.body.innerText);
+
+      expect(response.status()).toBe(504);
+      expect(text).toContain('GET /api/users');
+      expect(text).toContain(target);
+      expect(text).toContain('ECONNREFUSED');
+    } finally {
+      await browser.close();
+    }
+  });
+
+  it('should show the failed requests of the page in the overlay', async () => {
+    await start();
+
+    const { page, browser } = await runBrowser();
+
+    try {
+      await page.goto(`http://127.0.0.1:${port}/`, {
+        waitUntil: 'networkidle0',
+      });
+      await page.evaluate(() => fetch('/api/users', { method: 'POST' }));
+
+      await expect
+        .poll(() => getOverlayText(page), { timeout: 5000 })
+        .toContain(`Failed to proxy POST /api/users to ${target}`);
+    } finally {
+      await browser.close();
+    }
+  });
+
+  it('should only log the failed requests when the overlay is disabled', async () => {
+    await start({}, { overlay: false });
+
+    const { page, browser } = await runBrowser();
+
+    try {
+      const consoleMessages = [];
+
+      page.on('console', (message) => {
+        consoleMessages.push(message.text());
+      });
+
+      await page.goto(`http://127.0.0.1:${port}/`, {
+        waitUntil: 'networkidle0',
+      });
+      await page.evaluate(() => fetch('/api/users'));
+
+      await expect
+        .poll(() => consoleMessages)
+        .toContainEqual(
+          expect.stringContaining(
+            `Failed to proxy GET /api/users to ${target}`,
+          ),
+        );
+      expect(await page.$('#rspack-dev-server-client-overlay')).toBe(null);
+    } finally {
+      await browser.close();
+    }
+  });
+});
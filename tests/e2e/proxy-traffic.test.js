@@ -0,0 +1,359 @@
+const fs = require('node:fs');
+const { once } = require('node:events');
+const http = require('node:http');
+const os = require('node:os');
+const path = require('node:path');
+const zlib = require('node:zlib');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer } = require('@rspack/dev-server');
+const request = require('../helpers/http-request');
+const [port, backendPort] = require('../helpers/ports-map')['proxy-traffic'];
+
+const target = `http://127.0.0.1:${backendPort}`;
+
+const delay = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('proxy traffic recording', () => {
+  let directory;
+  let backend;
+  let backendRequests;
+  let backendEncodings;
+  let devServer;
+  let logs;
+
+  const start = async (traffic) => {
+    // a previous dev server listened on the same port, the requests must not reuse its sockets
+    http.globalAgent.destroy();
+
+    const compiler = rspack({
+      entry: path.resolve(__dirname, '../placeholder.js'),
+      stats: 'none',
+    });
+
+    logs = [];
+    compiler.hooks.infrastructureLog.tap(
+      'proxy-traffic-test',
+      (name, type, args) => {
+        if (name === 'rspack-dev-server') {
+          logs.push({ message: args.map(String).join(' '), type });
+        }
+
+        return true;
+      },
+    );
+
+    devServer = new RspackDevServer(
+      {
+        client: false,
+        hot: false,
+        host: '127.0.0.1',
+        port,
+        proxy: [
+          {
+            context: ['/api'],
+            target,
+            traffic,
+          },
+        ],
+        static: false,
+        webSocketServer: false,
+      },
+      compiler,
+    );
+
+    await devServer.start();
+  };
+
+  const post = (urlPath, body) =>
+    request({
+      port,
+      path: urlPath,
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  // recordings are written after the responses are sent
+  const waitForFile = async (file, count) => {
+    for (let i = 0; i < 100; i++) {
+      if (
+        fs.existsSync(file) &&
+        fs.readFileSync(file, 'utf8').split('"method"').length > count
+      ) {
+        return;
+      }
+
+      await delay(50);
+    }
+  };
+
+  const record = async (file) => {
+    await start({ mode: 'record', file });
+
+    await request({ port, path: '/api/users?page=2' });
+    await post('/api/search', { q: 'one' });
+    await post('/api/search', { q: 'two' });
+    await waitForFile(file, 3);
+    await devServer.stop();
+  };
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-proxy-traffic-'),
+    );
+    backendRequests = [];
+    backendEncodings = [];
+    backend = http.createServer((req, res) => {
+      const chunks = [];
+
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        const content = JSON.stringify({
+          url: req.url,
+          body: Buffer.concat(chunks).toString(),
+        });
+
+        backendRequests.push(`${req.method} ${req.url}`);
+        backendEncodings.push(req.headers['accept-encoding']);
+        res.setHeader('Content-Type', 'application/json');
+        res.setHeader('X-Backend', 'yes');
+        res.setHeader('Set-Cookie', 'session=secret');
+
+        if (/\bgzip\b/.test(req.headers['accept-encoding'] || '')) {
+          res.setHeader('Content-Encoding', 'gzip');
+          res.end(zlib.gzipSync(content));
+          return;
+        }
+
+        res.end(content);
+      });
+    });
+    backend.listen(backendPort, '127.0.0.1');
+    await once(backend, 'listening');
+  });
+
+  afterEach(async () => {
+    await devServer?.stop();
+    devServer = undefined;
+
+    if (backend.listening) {
+      backend.close();
+      await once(backend, 'close');
+    }
+
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should record the traffic in the HAR format', async () => {
+    const file = path.join(directory, 'api.har');
+
+    await record(file);
+
+    const { log } = JSON.parse(fs.readFileSync(file, 'utf8'));
+
+    expect(log.version).toBe('1.2');
+    expect(log.entries).toHaveLength(3);
+    expect(log.entries[0].request).toMatchObject({
+      method: 'GET',
+      url: `${target}/api/users?page=2`,
+      queryString: [{ name: 'page', value: '2' }],
+    });
+    expect(log.entries[1].request.postData.text).toBe('{"q":"one"}');
+    expect(log.entries[1].response).toMatchObject({
+      status: 200,
+      content: { text: '{"url":"/api/search","body":"{\\"q\\":\\"one\\"}"}' },
+    });
+  });
+
+  it.each(['api.har', 'api.json'])(
+    'should replay the traffic recorded in "%s" without the target',
+    async (name) => {
+      const file = path.join(directory, name);
+
+      await record(file);
+
+      backend.close();
+      await once(backend, 'close');
+      backendRequests = [];
+
+      await start({ mode: 'replay', file });
+      const users = await request({ port, path: '/api/users?page=2' });
+
+      expect(users.status).toBe(200);
+      expect(users.headers['x-backend']).toBe('yes');
+      expect(JSON.parse(users.text)).toEqual({
+        url: '/api/users?page=2',
+        body: '',
+      });
+      expect(
+        JSON.parse((await post('/api/search', { q: 'two' })).text),
+      ).toEqual({
+        url: '/api/search',
+        body: '{"q":"two"}',
+      });
+      expect(backendRequests).toEqual([]);
+    },
+  );
+
+  it('should log the replay misses', async () => {
+    const file = path.join(directory, 'api.json');
+
+    await record(file);
+
+    await start({ mode: 'replay', file });
+    const response = await post('/api/search', { q: 'three' });
+
+    expect(response.status).toBe(504);
+    expect(logs).toContainEqual({
+      message: expect.stringContaining(
+        '[HPM] No recorded response for POST /api/search',
+      ),
+      type: 'warn',
+    });
+  });
+
+  it('should match the requests by the configured parts', async () => {
+    const file = path.join(directory, 'api.json');
+
+    await record(file);
+
+    await start({
+      mode: 'replay',
+      file,
+      match: ['method', 'path'],
+    });
+    const response = await post('/api/search', { q: 'three' });
+
+    // the last recorded response of the path
+    expect(JSON.parse(response.text)).toEqual({
+      url: '/api/search',
+      body: '{"q":"two"}',
+    });
+  });
+
+  it.each([
+    [undefined, []],
+    [true, ['authorization', 'cookie', 'set-cookie']],
+  ])(
+    'should record the credentials when keepCredentials is %s',
+    async (keepCredentials, expected) => {
+      const file = path.join(directory, 'api.har');
+      await start({ mode: 'record', file, keepCredentials });
+
+      await request({
+        port,
+        path: '/api/users',
+        headers: { Authorization: 'Bearer secret', Cookie: 'session=secret' },
+      });
+      await waitForFile(file, 1);
+
+      const { log } = JSON.parse(fs.readFileSync(file, 'utf8'));
+      const names = [
+        ...log.entries[0].request.headers,
+        ...log.entries[0].response.headers,
+      ]
+        .map(({ name }) => name)
+        .filter((name) =>
+          ['authorization', 'cookie', 'set-cookie'].includes(name),
+        );
+
+      expect(names.sort()).toEqual(expected);
+    },
+  );
+
+  it('should not overwrite a recording which cannot be read', async () => {
+    const file = path.join(directory, 'api.json');
+
+    fs.writeFileSync(file, '{ "version": 1, "entries": [');
+
+    await start({ mode: 'record', file });
+    const response = await request({ port, path: '/api/users' });
+
+    expect(response.status).toBe(200);
+    await expect
+      .poll(() => logs.map(({ message }) => message).join('\n'))
+      .toContain(`Failed to read the proxy traffic recorded in "${file}"`);
+    expect(fs.readFileSync(file, 'utf8')).toBe('{ "version": 1, "entries": [');
+  });
+
+  it('should record the compressed responses decoded without changing the requests', async () => {
+    const file = path.join(directory, 'api.json');
+    await start({ mode: 'record', file });
+    const response = await request({
+      port,
+      path: '/api/users',
+      headers: { 'Accept-Encoding': 'gzip' },
+    });
+
+    // the client gets the response of the target as it is
+    expect(response.headers['content-encoding']).toBe('gzip');
+    expect(backendEncodings).toEqual(['gzip']);
+
+    await waitForFile(file, 1);
+
+    const { entries } = JSON.parse(fs.readFileSync(file, 'utf8'));
+
+    expect(entries[0].response).toMatchObject({
+      body: '{"url":"/api/users","body":""}',
+      encoding: 'utf8',
+    });
+    expect(entries[0].response.headers).not.toHaveProperty('content-encoding');
+
+    await devServer.stop();
+
+    await start({ mode: 'replay', file });
+
+    expect(
+      JSON.parse((await request({ port, path: '/api/users' })).text),
+    ).toEqual({ url: '/api/users', body: '' });
+  });
+
+  it('should write the responses arriving together at once', async () => {
+    const file = path.join(directory, 'api.json');
+    const writeFile = rs.spyOn(fs.promises, 'writeFile');
+
+    try {
+      await start({ mode: 'record', file });
+
+      await Promise.all(
+        ['one', 'two', 'three'].map((q) => post('/api/search', { q })),
+      );
+      await waitForFile(file, 3);
+
+      expect(
+        writeFile.mock.calls.filter(([written]) => written === file),
+      ).toHaveLength(1);
+    } finally {
+      writeFile.mockRestore();
+    }
+  });
+
+  it('should end the replayed requests which fail to be read', async () => {
+    const file = path.join(directory, 'api.json');
+
+    await record(file);
+
+    await start({ mode: 'replay', file });
+    const req = http.request({
+      host: '127.0.0.1',
+      port,
+      path: '/api/search',
+      method: 'POST',
+      headers: { 'Content-Length': 100 },
+    });
+
+    req.on('error', () => {});
+    req.write('{"q":');
+    await delay(100);
+    req.destroy();
+
+    await expect
+      .poll(() => logs)
+      .toContainEqual({
+        message: expect.stringContaining(
+          '[HPM] Failed to replay POST /api/search',
+        ),
+        type: 'error',
+      });
+  });
+});
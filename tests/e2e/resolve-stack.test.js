@@ -0,0 +1,160 @@
+const path = require('node:path');
+const { stripVTControlCharacters } = require('node:util');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const runtimeErrorConfig = require('../fixtures/runtime-error-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['resolve-stack'];
+const runBrowser = require('../helpers/run-browser');
+
+describe('resolve stack route', () => {
+  let server;
+
+  beforeEach(async () => {
+    const compiler = rspack({ ...config, devtool: 'source-map' });
+
+    server = new Server({ host: '127.0.0.1', port }, compiler);
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  const resolveStack = (body) =>
+    fetch(`http://127.0.0.1:${port}/rspack-dev-server/resolve-stack`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+
+  it('should resolve stack frames to the original source with a code frame', async () => {
+    const { text } = await request({ port, path: '/main.js' });
+    const lines = text.split('\n');
+    const line = lines.findIndex((code) =>
+      code.includes("console.log('Hey.')"),
+    );
+    const column = lines[line].indexOf('console') + 1;
+
+    const response = await resolveStack(
+      JSON.stringify({
+        frames: [
+          { file: `http://127.0.0.1:${port}/main.js`, line: line + 1, column },
+          { file: `http://127.0.0.1:${port}/unknown.js`, line: 1, column: 1 },
+        ],
+      }),
+    );
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result.frames).toEqual([
+      {
+        file: path.resolve(__dirname, '../fixtures/client-config/foo.js'),
+        source: './foo.js',
+        line: 3,
+        column: 1,
+      },
+      null,
+    ]);
+    expect(stripVTControlCharacters(result.codeFrame)).toBe(
+      [
+        "  1 | 'use strict';",
+        '  2 | ',
+        "> 3 | console.log('Hey.');",
+        '    | ^',
+      ].join('\n'),
+    );
+  });
+
+  it('should find the source map of the asset under the public path', async () => {
+    await server.stop();
+
+    // both compilers emit a `main.js`
+    server = new Server(
+      { host: '127.0.0.1', port },
+      rspack(
+        ['foo', 'bar'].map((name) => ({
+          ...config,
+          name,
+          devtool: 'source-map',
+          entry: `./${name}.js`,
+          output: { path: `/${name}`, publicPath: `/${name}/` },
+        })),
+      ),
+    );
+    await server.start();
+
+    const { text } = await request({ port, path: '/bar/main.js' });
+    const lines = text.split('\n');
+    const line = lines.findIndex((code) =>
+      code.includes("console.log('Bar.')"),
+    );
+    const column = lines[line].indexOf('console') + 1;
+
+    const response = await resolveStack(
+      JSON.stringify({
+        frames: [
+          {
+            file: `http://127.0.0.1:${port}/bar/main.js`,
+            line: line + 1,
+            column,
+          },
+        ],
+      }),
+    );
+    const result = await response.json();
+
+    expect(result.frames).toEqual([
+      expect.objectContaining({ source: './bar.js', line: 3, column: 1 }),
+    ]);
+  });
+
+  it('should reject invalid request bodies', async () => {
+    const response = await resolveStack('not json');
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should show the original position of the runtime errors in the overlay', async () => {
+    await server.stop();
+
+    server = new Server(
+      { host: '127.0.0.1', port },
+      rspack(runtimeErrorConfig),
+    );
+    await server.start();
+
+    const { page, browser } = await runBrowser();
+
+    try {
+      await page.goto(`http://127.0.0.1:${port}/`, {
+        waitUntil: 'networkidle0',
+      });
+
+      await expect
+        .poll(
+          () =>
+            page.evaluate(
+              () =>
+                document.querySelector('#rspack-dev-server-client-overlay')
+                  ?.contentDocument?.body.innerText ?? '',
+            ),
+          { timeout: 5000 },
+        )
+        .toContain('> 4 |   throw new Error');
+
+      const text = await page.evaluate(
+        () =>
+          document.querySelector('#rspack-dev-server-client-overlay')
+            .contentDocument.body.innerText,
+      );
+
+      expect(text).toContain('Runtime problem');
+      expect(text).toMatch(/at .*\.\/foo\.js:4:\d+/);
+    } finally {
+      await browser.close();
+    }
+  });
+});
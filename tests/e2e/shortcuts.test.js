@@ -0,0 +1,161 @@
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const port = require('../helpers/ports-map').shortcuts;
+
+// the shortcuts are read line by line from stdin
+const press = (key) => {
+  process.stdin.emit('data', Buffer.from(`${key}\n`));
+};
+
+describe('shortcuts', () => {
+  let server;
+  let isTTY;
+  let ci;
+  let consoleSpy;
+
+  const start = async (options = {}) => {
+    server = new Server(
+      { host: '127.0.0.1', port, ...options },
+      rspack(config),
+    );
+
+    await server.start();
+  };
+
+  beforeEach(() => {
+    ({ isTTY } = process.stdin);
+    ci = process.env.CI;
+    process.stdin.isTTY = true;
+    delete process.env.CI;
+    consoleSpy = rs.spyOn(global.console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    process.stdin.isTTY = isTTY;
+
+    if (typeof ci === 'undefined') {
+      delete process.env.CI;
+    } else {
+      process.env.CI = ci;
+    }
+
+    consoleSpy.mockRestore();
+  });
+
+  it('should print the shortcuts and run the action of the pressed key', async () => {
+    await start();
+
+    const output = consoleSpy.mock.calls.join('\n');
+
+    for (const key of ['r', 'o', 'u', 'c', 'q', 'h']) {
+      expect(output).toContain(`${key} + enter`);
+    }
+
+    const invalidateSpy = rs
+      .spyOn(server, 'invalidate')
+      .mockImplementation(() => {});
+
+    press('r');
+
+    await expect.poll(() => invalidateSpy.mock.calls.length).toBe(1);
+
+    consoleSpy.mockClear();
+    press(' h ');
+
+    await expect
+      .poll(() => consoleSpy.mock.calls.join('\n'))
+      .toContain('to show help');
+  });
+
+  it('should run the custom shortcuts', async () => {
+    const option = rs.fn();
+    const registered = rs.fn();
+
+    await start({
+      shortcuts: {
+        custom: [{ key: 'x', description: 'do x', action: option }],
+      },
+    });
+
+    server.registerShortcut({
+      key: 'r',
+      description: 'replace the rebuild',
+      action: registered,
+    });
+
+    const invalidateSpy = rs.spyOn(server, 'invalidate');
+
+    press('x');
+
+    await expect.poll(() => option.mock.calls.length).toBe(1);
+
+    press('r');
+
+    await expect.poll(() => registered.mock.calls.length).toBe(1);
+    expect(option).toHaveBeenCalledWith(server);
+    expect(registered).toHaveBeenCalledWith(server);
+    expect(invalidateSpy).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['stdin is not a TTY', () => (process.stdin.isTTY = false)],
+    ['running in CI', () => (process.env.CI = 'true')],
+    ['disabled', () => {}, { shortcuts: false }],
+  ])('should not read the shortcuts when %s', async (_, setup, options) => {
+    const action = rs.fn();
+
+    setup();
+    await start({
+      ...options,
+      shortcuts: options?.shortcuts ?? {
+        custom: [{ key: 'x', description: 'do x', action }],
+      },
+    });
+
+    press('x');
+
+    expect(action).not.toHaveBeenCalled();
+    expect(consoleSpy.mock.calls.join('\n')).not.toContain('+ enter');
+  });
+
+  it('should open the URL of the server', async () => {
+    const directory = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'rspack-dev-server-shortcuts-'),
+    );
+    const file = path.join(directory, 'opened.txt');
+
+    try {
+      // the "browser" records the URLs it is started with
+      await start({
+        open: {
+          app: {
+            name: process.execPath,
+            arguments: [
+              '-e',
+              `require('fs').appendFileSync(${JSON.stringify(file)}, process.argv[1] + '\\n')`,
+            ],
+          },
+        },
+      });
+
+      const url = `http://127.0.0.1:${port}/`;
+      const read = () =>
+        fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+
+      // opened on start
+      await expect.poll(read).toBe(`${url}\n`);
+
+      press('o');
+
+      await expect.poll(read).toBe(`${url}\n${url}\n`);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
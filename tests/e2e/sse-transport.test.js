@@ -0,0 +1,261 @@
+const http = require('node:http');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/client-config/rspack.config');
+const sseConfig = require('../fixtures/sse-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['sse-transport'];
+const runBrowser = require('../helpers/run-browser');
+
+// collects the events of an event stream
+const connect = (port, headers = {}) =>
+  new Promise((resolve, reject) => {
+    const req = http.get(
+      {
+        hostname: '127.0.0.1',
+        port,
+        path: '/ws',
+        headers: { host: `127.0.0.1:${port}`, ...headers },
+      },
+      (res) => {
+        const events = [];
+        let buffer = '';
+
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => {
+          buffer += chunk;
+
+          const blocks = buffer.split('\n\n');
+
+          buffer = blocks.pop();
+
+          for (const block of blocks) {
+            const event = { event: 'message', data: '' };
+
+            for (const line of block.split('\n')) {
+              if (line.startsWith('event: ')) {
+                event.event = line.slice('event: '.length);
+              } else if (line.startsWith('data: ')) {
+                event.data = line.slice('data: '.length);
+              }
+            }
+
+            if (event.data) {
+              events.push(event);
+            }
+          }
+        });
+
+        resolve({ req, res, events });
+      },
+    );
+
+    req.on('error', reject);
+  });
+
+const waitFor = (predicate) =>
+  new Promise((resolve) => {
+    const interval = setInterval(() => {
+      if (predicate()) {
+        clearInterval(interval);
+        resolve();
+      }
+    }, 50);
+  });
+
+describe('sse transport', () => {
+  let server;
+  let stream;
+
+  beforeEach(async () => {
+    const compiler = rspack(config);
+
+    server = new Server(
+      { host: '127.0.0.1', port, webSocketServer: 'sse' },
+      compiler,
+    );
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    stream?.req.destroy();
+    stream = undefined;
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+  });
+
+  it('should use the sse client transport by default', async () => {
+    const response = await request({ port, path: '/main.js' });
+
+    expect(response.text).toContain('SseClient');
+  });
+
+  it('should send the messages over an event stream', async () => {
+    await request({ port, path: '/main.js' });
+
+    stream = await connect(port);
+
+    expect(stream.res.headers['content-type']).toBe('text/event-stream');
+
+    await waitFor(() =>
+      stream.events.some(
+        ({ event, data }) =>
+          event === 'message' && JSON.parse(data).type === 'ok',
+      ),
+    );
+
+    const [connected, ...messages] = stream.events;
+
+    expect(connected.event).toBe('connected');
+    expect(messages.map(({ data }) => JSON.parse(data).type)).toEqual(
+      expect.arrayContaining(['hot', 'liveReload', 'hash', 'ok']),
+    );
+  });
+
+  it('should receive the messages of the client with POST requests', async () => {
+    stream = await connect(port);
+
+    await waitFor(() => stream.events.length > 0);
+
+    const id = stream.events[0].data;
+    const received = new Promise((resolve) => {
+      server.ws.on('sse:ping', resolve);
+    });
+
+    const response = await fetch(`http://127.0.0.1:${port}/ws?id=${id}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        type: 'custom',
+        data: { event: 'sse:ping', data: { value: 1 } },
+      }),
+    });
+
+    expect(response.status).toBe(204);
+    expect(await received).toEqual({ value: 1 });
+
+    const unknownResponse = await fetch(
+      `http://127.0.0.1:${port}/ws?id=unknown`,
+      { method: 'POST', body: '{}' },
+    );
+
+    expect(unknownResponse.status).toBe(404);
+  });
+
+  it.each([
+    ['other origins', { origin: 'http://evil.example' }],
+    ['other sites without an origin', { 'sec-fetch-site': 'cross-site' }],
+    ['unknown hosts', { host: 'evil.example' }],
+  ])('should reject event streams from %s', async (_, headers) => {
+    const response = await request({ port, path: '/ws', headers });
+
+    expect(response.status).toBe(403);
+    // unknown hosts are already rejected by the host check of all the requests
+    expect(response.text).toMatch(/^Invalid Host/);
+    expect(server.webSocketServer.clients).toHaveLength(0);
+  });
+
+  it('should accept same-origin event streams without an origin', async () => {
+    stream = await connect(port, { 'sec-fetch-site': 'same-origin' });
+
+    await waitFor(() => stream.events.length > 1);
+
+    expect(stream.res.statusCode).toBe(200);
+    expect(stream.events[0].event).toBe('connected');
+    expect(
+      stream.events.some(({ data }) => data.includes('Invalid Host/Origin')),
+    ).toBe(false);
+  });
+});
+
+describe('sse transport in the browser', () => {
+  let server;
+  let page;
+  let browser;
+  let consoleMessages;
+
+  const startServer = async () => {
+    const compiler = rspack(sseConfig);
+
+    server = new Server(
+      { host: '127.0.0.1', port, webSocketServer: 'sse' },
+      compiler,
+    );
+
+    await server.start();
+  };
+
+  const waitForConsoleMessage = (text) =>
+    expect
+      .poll(() => consoleMessages.map((message) => message.text()), {
+        timeout: 10000,
+      })
+      .toContainEqual(expect.stringContaining(text));
+
+  beforeEach(async () => {
+    await startServer();
+
+    ({ page, browser } = await runBrowser());
+
+    consoleMessages = [];
+    page.on('console', (message) => {
+      consoleMessages.push(message);
+    });
+  });
+
+  afterEach(async () => {
+    await browser.close();
+    await server.stop();
+  });
+
+  it('should connect and receive the messages of the server', async () => {
+    await page.goto(`http://127.0.0.1:${port}/`, {
+      waitUntil: 'networkidle0',
+    });
+
+    await waitForConsoleMessage('[rspack-dev-server] Server started');
+
+    expect(server.webSocketServer.clients).toHaveLength(1);
+
+    server.ws.send('sse:echo', 'hello');
+
+    await waitForConsoleMessage('echo: hello');
+  });
+
+  it('should send the messages of the page in order after the connected event', async () => {
+    const received = [];
+
+    server.ws.on('sse:order', (index) => {
+      received.push(index);
+    });
+
+    await page.goto(`http://127.0.0.1:${port}/`, {
+      waitUntil: 'networkidle0',
+    });
+
+    // the messages sent before the connection is ready wait for its id
+    await expect
+      .poll(() => received, { timeout: 10000 })
+      .toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should reconnect when the server restarts', async () => {
+    await page.goto(`http://127.0.0.1:${port}/`, {
+      waitUntil: 'networkidle0',
+    });
+
+    await waitForConsoleMessage('[rspack-dev-server] Server started');
+    await server.stop();
+    await waitForConsoleMessage('Disconnected!');
+    await startServer();
+
+    await expect
+      .poll(() => server.webSocketServer.clients.length, { timeout: 15000 })
+      .toBe(1);
+
+    server.ws.send('sse:echo', 'again');
+
+    await waitForConsoleMessage('echo: again');
+  });
+});
@@ -0,0 +1,151 @@
+const http = require('node:http');
+const { rspack } = require('@rspack/core');
+const { RspackDevServer: Server } = require('@rspack/dev-server');
+const config = require('../fixtures/simple-config/rspack.config');
+const request = require('../helpers/http-request');
+const port = require('../helpers/ports-map')['waiting-page'];
+
+// holds the first compilation until `release` is called
+class HoldPlugin {
+  constructor() {
+    this.held = new Promise((resolve) => {
+      this.release = resolve;
+    });
+  }
+
+  apply(compiler) {
+    compiler.hooks.make.tapPromise('HoldPlugin', () => this.held);
+  }
+}
+
+const readEvents = (onEvent) =>
+  new Promise((resolve, reject) => {
+    const req = http.get(
+      {
+        hostname: '127.0.0.1',
+        port,
+        path: '/rspack-dev-server/progress',
+      },
+      (res) => {
+        let buffer = '';
+
+        res.setEncoding('utf8');
+        res.on('data', (chunk) => {
+          buffer += chunk;
+
+          const events = buffer.split('\n\n');
+
+          buffer = events.pop();
+
+          for (const event of events) {
+            const [, type] = event.match(/^event: (.+)$/m);
+            const [, data] = event.match(/^data: (.+)$/m);
+
+            onEvent(type, data);
+          }
+        });
+        res.on('end', () => resolve(res));
+      },
+    );
+
+    req.on('error', reject);
+  });
+
+describe('waitingPage option', () => {
+  let holdPlugin;
+  let server;
+
+  beforeEach(async () => {
+    holdPlugin = new HoldPlugin();
+
+    const compiler = rspack({
+      ...config,
+      plugins: [...config.plugins, holdPlugin],
+    });
+
+    server = new Server(
+      { host: '127.0.0.1', port, waitingPage: true },
+      compiler,
+    );
+
+    await server.start();
+  });
+
+  afterEach(async () => {
+    holdPlugin.release();
+
+    await server.stop();
+    // the next test listens on the same port, its requests must not reuse these sockets
+    http.globalAgent.destroy();
+  });
+
+  it('should serve the waiting page to navigations during the first compilation', async () => {
+    const response = await request({
+      port,
+      path: '/',
+      headers: { 'sec-fetch-mode': 'navigate' },
+    });
+
+    expect(response.status).toBe(503);
+    expect(response.headers['content-type']).toBe('text/html; charset=utf-8');
+    expect(response.headers['cache-control']).toBe('no-store');
+    expect(response.text).toContain('<title>Compiling…</title>');
+    expect(response.text).toContain(
+      'new EventSource("/rspack-dev-server/progress")',
+    );
+  });
+
+  it('should serve the waiting page to clients accepting HTML', async () => {
+    const response = await request({
+      port,
+      path: '/',
+      headers: { accept: 'text/html,application/xhtml+xml' },
+    });
+
+    expect(response.status).toBe(503);
+  });
+
+  it('should stream the progress and the end of the first compilation', async () => {
+    const events = [];
+    const stream = readEvents((type, data) => {
+      events.push({ type, data });
+
+      if (type === 'progress') {
+        holdPlugin.release();
+      }
+    });
+
+    const response = await stream;
+
+    expect(response.headers['content-type']).toBe('text/event-stream');
+    expect(events.at(-1)).toEqual({ type: 'done', data: 'ready' });
+    expect(
+      events
+        .filter(({ type }) => type === 'progress')
+        .map(({ data }) => JSON.parse(data)),
+    ).toContainEqual({ percent: 100, msg: 'Compilation completed' });
+  });
+
+  it('should serve the application once the first compilation is done', async () => {
+    holdPlugin.release();
+
+    await request({ port, path: '/main.js' });
+
+    const response = await request({
+      port,
+      path: '/',
+      headers: { 'sec-fetch-mode': 'navigate' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.text).not.toContain('Compiling…');
+
+    const events = [];
+
+    await readEvents((type, data) => {
+      events.push({ type, data });
+    });
+
+    expect(events).toEqual([{ type: 'done', data: 'ready' }]);
+  });
+});
@@ -0,0 +1,10 @@
+'use strict';
+
+console.warn('Something', 'happened', { count: 1 });
+console.log('Logged');
+
+setTimeout(() => {
+  throw new Error('Thrown');
+});
+
+Promise.reject(new Error('Rejected'));
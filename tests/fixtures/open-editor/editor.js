@@ -0,0 +1,9 @@
+'use strict';
+
+const fs = require('node:fs');
+
+// a fake editor which records the arguments it was opened with
+fs.writeFileSync(
+  process.env.OPEN_EDITOR_OUTPUT,
+  JSON.stringify(process.argv.slice(2)),
+);
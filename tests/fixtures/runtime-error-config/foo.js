@@ -0,0 +1,5 @@
+'use strict';
+
+setTimeout(() => {
+  throw new Error('Runtime problem');
+});
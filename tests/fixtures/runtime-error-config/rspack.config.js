@@ -0,0 +1,21 @@
+'use strict';
+
+const HTMLGeneratorPlugin = require('../../helpers/html-generator-plugin');
+
+module.exports = {
+  devtool: 'source-map',
+  mode: 'development',
+  context: __dirname,
+  stats: 'none',
+  entry: './foo.js',
+  output: {
+    path: '/',
+  },
+  infrastructureLogging: {
+    level: 'info',
+    stream: {
+      write: () => {},
+    },
+  },
+  plugins: [new HTMLGeneratorPlugin()],
+};
@@ -0,0 +1,12 @@
+'use strict';
+
+const { channel } = require('@rspack/dev-server/client/channel');
+
+channel.on('sse:echo', (data) => {
+  console.log(`echo: ${data}`);
+});
+
+// sent with one POST request each, they must arrive in order
+for (let index = 0; index < 10; index++) {
+  channel.send('sse:order', index);
+}
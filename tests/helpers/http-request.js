@@ -9,6 +9,7 @@ function request({
   path = '/',
   method = 'GET',
   headers,
+  body,
   rejectUnauthorized = true,
   transportOptions = {},
 }) {
@@ -59,7 +60,7 @@ function request({
     });
 
     req.on('error', reject);
-    req.end();
+    req.end(body);
   });
 }
 
@@ -78,6 +78,31 @@ const listOfTests = {
   'options-request-response': 2,
   app: 1,
   'cross-origin-request': 2,
+  'sse-transport': 1,
+  'forward-console': 1,
+  'code-frame': 1,
+  'resolve-stack': 1,
+  protocol: 1,
+  'proxy-error': 2,
+  'middleware-mode': 1,
+  'custom-messages': 1,
+  shortcuts: 1,
+  'open-editor': 1,
+  'json-api': 1,
+  'last-successful-build': 1,
+  'waiting-page': 1,
+  'multi-compiler-messages': 1,
+  'lifecycle-events': 2,
+  plugins: 1,
+  'middleware-list': 1,
+  mock: 2,
+  'proxy-traffic': 2,
+  network: 1,
+  'access-log': 1,
+  'local-certificate': 1,
+  'certificate-reload': 1,
+  'plain-http': 1,
+  listen: 2,
 };
 
 let startPort = 8089;
@@ -0,0 +1,105 @@
+import { MiddlewareList, describeMiddlewares } from '../src/middlewareList';
+
+describe('MiddlewareList', () => {
+  const noop = () => {};
+  const createList = () => {
+    const list = new MiddlewareList();
+
+    list.push(
+      { name: 'compression', middleware: noop },
+      { name: 'serve-static', path: '/', middleware: noop },
+      { name: 'serve-static', path: '/public', middleware: noop },
+      noop,
+      { name: 'options-middleware', middleware: noop },
+    );
+
+    return list;
+  };
+
+  it('should insert middlewares before the first one with the name', () => {
+    const list = createList().insertBefore(
+      'serve-static',
+      { name: 'a', middleware: noop },
+      { name: 'b', middleware: noop },
+    );
+
+    expect(list.names()).toEqual([
+      'compression',
+      'a',
+      'b',
+      'serve-static',
+      'serve-static',
+      '<anonymous>',
+      'options-middleware',
+    ]);
+  });
+
+  it('should insert middlewares after the last one with the name', () => {
+    const list = createList().insertAfter('serve-static', {
+      name: 'a',
+      middleware: noop,
+    });
+
+    expect(list.names()).toEqual([
+      'compression',
+      'serve-static',
+      'serve-static',
+      'a',
+      '<anonymous>',
+      'options-middleware',
+    ]);
+  });
+
+  it('should replace the middlewares with the name', () => {
+    const list = createList().replace('serve-static', {
+      name: 'custom-static',
+      middleware: noop,
+    });
+
+    expect(list.names()).toEqual([
+      'compression',
+      'custom-static',
+      '<anonymous>',
+      'options-middleware',
+    ]);
+  });
+
+  it('should remove the middlewares with the name', () => {
+    const list = createList().remove('serve-static').remove('compression');
+
+    expect(list.names()).toEqual(['<anonymous>', 'options-middleware']);
+  });
+
+  it('should throw for unknown names', () => {
+    const list = createList();
+    const message =
+      'No middleware named "history", available middlewares: compression, serve-static, serve-static, <anonymous>, options-middleware';
+
+    expect(() => list.insertBefore('history', noop)).toThrow(message);
+    expect(() => list.insertAfter('history', noop)).toThrow(message);
+    expect(() => list.replace('history', noop)).toThrow(message);
+    expect(() => list.remove('history')).toThrow(message);
+    expect(list).toHaveLength(5);
+  });
+
+  it('should keep the array methods', () => {
+    const list = createList();
+    const filtered = list.filter(
+      (middleware) => typeof middleware !== 'function',
+    );
+
+    expect(Array.isArray(list)).toBe(true);
+    expect(filtered).toHaveLength(4);
+    expect(filtered).not.toBeInstanceOf(MiddlewareList);
+  });
+
+  it('should describe the middleware chain', () => {
+    expect(describeMiddlewares(createList())).toMatchInlineSnapshot(`
+      "1. compression
+      2. serve-static (/)
+      3. serve-static (/public)
+      4. <anonymous>
+      5. options-middleware"
+    `);
+  });
+});
@@ -0,0 +1,34 @@
+import * as path from 'node:path';
+import { getMockRoute, matchMockRoute } from '../src/mock';
+
+describe('mock routes', () => {
+  const directory = path.resolve('mock');
+  const route = (file: string) =>
+    getMockRoute(directory, path.join(directory, file));
+
+  it('should map files to routes', () => {
+    expect(route('api/users/[id].ts').segments).toEqual([
+      'api',
+      'users',
+      '[id]',
+    ]);
+    expect(route('api/index.json')).toMatchObject({
+      segments: ['api'],
+      json: true,
+    });
+    expect(route('index.mjs').segments).toEqual([]);
+  });
+
+  it('should match the parameters', () => {
+    const users = route('api/users/[id]/posts/[post].ts');
+
+    expect(matchMockRoute(users, ['api', 'users', '1', 'posts', '2'])).toEqual({
+      id: '1',
+      post: '2',
+    });
+    expect(matchMockRoute(users, ['api', 'users', '1'])).toBeUndefined();
+    expect(
+      matchMockRoute(users, ['api', 'teams', '1', 'posts', '2']),
+    ).toBeUndefined();
+  });
+});
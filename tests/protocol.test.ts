@@ -0,0 +1,8 @@
+import { PROTOCOL_VERSION as CLIENT_PROTOCOL_VERSION } from '../client-src/protocol';
+import { PROTOCOL_VERSION } from '../src/protocol';
+
+describe('message protocol', () => {
+  it('should use the same version on the server and the client', () => {
+    expect(CLIENT_PROTOCOL_VERSION).toBe(PROTOCOL_VERSION);
+  });
+});
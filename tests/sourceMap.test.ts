@@ -0,0 +1,55 @@
+import { originalPositionFor } from '../src/sourceMap';
+
+describe('originalPositionFor', () => {
+  const map = {
+    version: 3,
+    sources: ['webpack:///./src/index.js'],
+    sourcesContent: ['const a = 1;\nconsole.log(a);\n'],
+    names: ['console'],
+    mappings: 'AAAA;AACAA,QAAQ',
+  };
+
+  it('should find the original position of a generated position', () => {
+    expect(originalPositionFor(map, 2, 1)).toEqual({
+      source: 'webpack:///./src/index.js',
+      line: 2,
+      column: 1,
+      name: 'console',
+      sourceContent: map.sourcesContent[0],
+    });
+  });
+
+  it('should use the closest segment before the generated column', () => {
+    expect(originalPositionFor(map, 2, 12)).toMatchObject({
+      line: 2,
+      column: 9,
+      name: undefined,
+    });
+  });
+
+  it('should return undefined for unmapped positions', () => {
+    expect(originalPositionFor(map, 3, 1)).toBeUndefined();
+    expect(originalPositionFor({ ...map, mappings: ';AAAA' }, 1, 1)).toBe(
+      undefined,
+    );
+  });
+
+  it('should resolve the sources against the source root', () => {
+    const sources = ['./src/index.js', '/abs/index.js', 'webpack:///a.js'];
+    const mappings = 'AAAA;ACAA;ACAA';
+    const positions = [1, 2, 3].map(
+      (line) =>
+        originalPositionFor(
+          { version: 3, sources, sourceRoot: 'webpack://app/', mappings },
+          line,
+          1,
+        )?.source,
+    );
+
+    expect(positions).toEqual([
+      'webpack://app/./src/index.js',
+      '/abs/index.js',
+      'webpack:///a.js',
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+// The client compiles its own copy of the message types, they must not drift apart.
+import type { ClientMessage, ServerMessage } from '@rspack/dev-server';
+import type {
+  ClientMessage as ClientSideClientMessage,
+  ServerMessage as ClientSideServerMessage,
+} from '@rspack/dev-server/client/protocol';
+
+type Equal<X, Y> =
+  (<T>() => T extends X ? 1 : 2) extends <T>() => T extends Y ? 1 : 2
+    ? true
+    : false;
+
+type Expect<T extends true> = T;
+
+// the problems are typed by `@rspack/core` on the server and as errors in the client
+type WithoutProblems<Message> = Message extends {
+  type: 'warnings' | 'errors';
+}
+  ? Pick<Message, Exclude<keyof Message, 'data'>>
+  : Message;
+
+export type Assertions = [
+  Expect<
+    Equal<
+      WithoutProblems<ServerMessage>,
+      WithoutProblems<ClientSideServerMessage>
+    >
+  >,
+  Expect<Equal<ClientMessage, ClientSideClientMessage>>,
+];